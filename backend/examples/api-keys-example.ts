@@ -0,0 +1,342 @@
+/**
+ * API Key Example
+ *
+ * Demonstrates API key authentication for machine clients:
+ * - Keys look like `sk_<prefix>_<secret>`; only a SHA-256 hash is stored
+ * - Lookup by the public prefix, then constant-time hash comparison
+ * - Scopes limit a key to a subset of its role's permissions
+ * - Last-used timestamp and revocation
+ *
+ * `authMiddleware` accepts keys in an `X-API-Key` header or as
+ * `Authorization: Bearer sk_...` and resolves them to a principal that
+ * `requireRole` and `requirePermission` can check.
+ */
+
+import type { JWTPayload } from './auth-middleware-example';
+import { lowerRole, type Permission, type Role } from './permissions-example';
+import { timingSafeEqual, type UserRecord } from './credentials-example';
+
+export const API_KEY_PREFIX = 'sk_';
+
+export interface ApiKeyRecord {
+  id: string;
+  prefix: string;
+  keyHash: string;
+  name: string;
+  ownerId: string;
+  role: Role;
+  scopes: Permission[];
+  createdAt: string;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+}
+
+/**
+ * Storage backend for API keys
+ */
+export interface ApiKeyStore {
+  findByPrefix(prefix: string): Promise<ApiKeyRecord | null>;
+  insert(record: ApiKeyRecord): Promise<void>;
+  markUsed(id: string, usedAt: string): Promise<void>;
+  revoke(id: string, revokedAt: string): Promise<void>;
+}
+
+/**
+ * D1 API Key Store
+ *
+ * Migration (migrations/0002_create_api_keys.sql):
+ * ```sql
+ * CREATE TABLE api_keys (
+ *   id TEXT PRIMARY KEY,
+ *   prefix TEXT NOT NULL UNIQUE,
+ *   key_hash TEXT NOT NULL,
+ *   name TEXT NOT NULL,
+ *   owner_id TEXT NOT NULL REFERENCES users(id),
+ *   role TEXT NOT NULL,
+ *   scopes TEXT NOT NULL, -- JSON array of permissions
+ *   created_at TEXT NOT NULL,
+ *   last_used_at TEXT,
+ *   revoked_at TEXT
+ * );
+ * ```
+ */
+export class D1ApiKeyStore implements ApiKeyStore {
+  constructor(private db: D1Database) {}
+
+  async findByPrefix(prefix: string): Promise<ApiKeyRecord | null> {
+    const row = await this.db
+      .prepare('SELECT * FROM api_keys WHERE prefix = ?')
+      .bind(prefix)
+      .first<Record<string, string | null>>();
+
+    if (!row) {
+      return null;
+    }
+
+    return {
+      id: row.id as string,
+      prefix: row.prefix as string,
+      keyHash: row.key_hash as string,
+      name: row.name as string,
+      ownerId: row.owner_id as string,
+      role: row.role as Role,
+      scopes: JSON.parse(row.scopes as string),
+      createdAt: row.created_at as string,
+      lastUsedAt: row.last_used_at,
+      revokedAt: row.revoked_at,
+    };
+  }
+
+  async insert(record: ApiKeyRecord): Promise<void> {
+    await this.db
+      .prepare(
+        'INSERT INTO api_keys (id, prefix, key_hash, name, owner_id, role, scopes, created_at) ' +
+        'VALUES (?, ?, ?, ?, ?, ?, ?, ?)'
+      )
+      .bind(
+        record.id,
+        record.prefix,
+        record.keyHash,
+        record.name,
+        record.ownerId,
+        record.role,
+        JSON.stringify(record.scopes),
+        record.createdAt
+      )
+      .run();
+  }
+
+  async markUsed(id: string, usedAt: string): Promise<void> {
+    await this.db.prepare('UPDATE api_keys SET last_used_at = ? WHERE id = ?').bind(usedAt, id).run();
+  }
+
+  async revoke(id: string, revokedAt: string): Promise<void> {
+    await this.db.prepare('UPDATE api_keys SET revoked_at = ? WHERE id = ?').bind(revokedAt, id).run();
+  }
+}
+
+/**
+ * In-Memory API Key Store (tests and local development)
+ */
+export class InMemoryApiKeyStore implements ApiKeyStore {
+  private keys = new Map<string, ApiKeyRecord>();
+
+  async findByPrefix(prefix: string): Promise<ApiKeyRecord | null> {
+    return this.keys.get(prefix) ?? null;
+  }
+
+  async insert(record: ApiKeyRecord): Promise<void> {
+    this.keys.set(record.prefix, { ...record });
+  }
+
+  async markUsed(id: string, usedAt: string): Promise<void> {
+    this.update(id, { lastUsedAt: usedAt });
+  }
+
+  async revoke(id: string, revokedAt: string): Promise<void> {
+    this.update(id, { revokedAt });
+  }
+
+  private update(id: string, changes: Partial<ApiKeyRecord>): void {
+    for (const record of this.keys.values()) {
+      if (record.id === id) {
+        Object.assign(record, changes);
+      }
+    }
+  }
+}
+
+/**
+ * API Key Service
+ */
+export class ApiKeyService {
+  // Limit last-used writes to one per key per 5 minutes
+  private static readonly LAST_USED_RESOLUTION_MS = 5 * 60 * 1000;
+
+  constructor(private store: ApiKeyStore) {}
+
+  /**
+   * Create a key. The plaintext key is returned once and never stored.
+   */
+  async createKey(input: {
+    ownerId: string;
+    name: string;
+    role: Role;
+    scopes: Permission[];
+  }): Promise<{ key: string; record: ApiKeyRecord }> {
+    const prefix = randomToken(6);
+    const key = `${API_KEY_PREFIX}${prefix}_${randomToken(24)}`;
+
+    const record: ApiKeyRecord = {
+      ...input,
+      id: crypto.randomUUID(),
+      prefix,
+      keyHash: await hashKey(key),
+      createdAt: new Date().toISOString(),
+      lastUsedAt: null,
+      revokedAt: null,
+    };
+
+    await this.store.insert(record);
+
+    return { key, record };
+  }
+
+  /**
+   * Verify a presented key, returning its record if valid and not revoked
+   */
+  async verifyKey(key: string): Promise<ApiKeyRecord | null> {
+    const prefix = parsePrefix(key);
+
+    if (!prefix) {
+      return null;
+    }
+
+    const record = await this.store.findByPrefix(prefix);
+
+    if (!record || record.revokedAt) {
+      return null;
+    }
+
+    const presented = new TextEncoder().encode(await hashKey(key));
+    const expected = new TextEncoder().encode(record.keyHash);
+
+    if (!timingSafeEqual(presented, expected)) {
+      return null;
+    }
+
+    const now = new Date();
+    const lastUsed = record.lastUsedAt ? Date.parse(record.lastUsedAt) : 0;
+
+    if (now.getTime() - lastUsed > ApiKeyService.LAST_USED_RESOLUTION_MS) {
+      await this.store.markUsed(record.id, now.toISOString());
+    }
+
+    return record;
+  }
+
+  /**
+   * Revoke a key; it stops working immediately
+   */
+  async revokeKey(id: string): Promise<void> {
+    await this.store.revoke(id, new Date().toISOString());
+  }
+}
+
+/**
+ * Resolve an API key record to a principal for authorization checks.
+ *
+ * The key acts as its owner (so `:own` permissions apply), limited to its
+ * role and scopes. The role is capped at the owner's current role, so a
+ * key created before a demotion doesn't keep the old privileges.
+ */
+export function toPrincipal(record: ApiKeyRecord, owner: Pick<UserRecord, 'role'>): JWTPayload {
+  return {
+    userId: record.ownerId,
+    email: '',
+    role: lowerRole(record.role, owner.role),
+    scopes: record.scopes,
+    apiKeyId: record.id,
+  };
+}
+
+/**
+ * Extract an API key from `X-API-Key` or `Authorization: Bearer sk_...`
+ */
+export function extractApiKey(request: Request): string | null {
+  const header = request.headers.get('X-API-Key');
+
+  if (header) {
+    return header.trim();
+  }
+
+  const authHeader = request.headers.get('Authorization') ?? '';
+  const [scheme, value] = authHeader.split(' ');
+
+  return scheme === 'Bearer' && value?.startsWith(API_KEY_PREFIX) ? value : null;
+}
+
+function parsePrefix(key: string): string | null {
+  const match = /^sk_([A-Za-z0-9-]+)_[A-Za-z0-9_-]+$/.exec(key);
+  return match ? match[1] : null;
+}
+
+async function hashKey(key: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(key));
+  return btoa(String.fromCharCode(...new Uint8Array(digest)));
+}
+
+function randomToken(bytes: number): string {
+  const random = crypto.getRandomValues(new Uint8Array(bytes));
+
+  // base64url without `_`, so the key's prefix separator stays unambiguous
+  return btoa(String.fromCharCode(...random))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '-')
+    .replace(/=+$/, '');
+}
+
+/**
+ * Testing
+ */
+if (import.meta.vitest) {
+  const { describe, it, expect, beforeEach } = import.meta.vitest;
+
+  describe('ApiKeyService', () => {
+    let store: InMemoryApiKeyStore;
+    let service: ApiKeyService;
+
+    beforeEach(() => {
+      store = new InMemoryApiKeyStore();
+      service = new ApiKeyService(store);
+    });
+
+    const create = () =>
+      service.createKey({ ownerId: 'user-1', name: 'CI deploys', role: 'user', scopes: ['content:read'] });
+
+    it('should create a key that verifies', async () => {
+      const { key, record } = await create();
+
+      expect(key.startsWith(`sk_${record.prefix}_`)).toBe(true);
+      expect(record.keyHash).not.toContain(key);
+      expect((await service.verifyKey(key))?.id).toBe(record.id);
+    });
+
+    it('should reject a key with the right prefix but wrong secret', async () => {
+      const { record } = await create();
+
+      expect(await service.verifyKey(`sk_${record.prefix}_wrongsecret`)).toBeNull();
+    });
+
+    it('should reject revoked keys', async () => {
+      const { key, record } = await create();
+      await service.revokeKey(record.id);
+
+      expect(await service.verifyKey(key)).toBeNull();
+    });
+
+    it('should record the last-used timestamp', async () => {
+      const { key, record } = await create();
+      await service.verifyKey(key);
+
+      expect((await store.findByPrefix(record.prefix))?.lastUsedAt).not.toBeNull();
+    });
+
+    it('should extract keys from X-API-Key or Bearer sk_', () => {
+      const viaHeader = new Request('https://example.com', { headers: { 'X-API-Key': 'sk_abc_def' } });
+      const viaBearer = new Request('https://example.com', { headers: { Authorization: 'Bearer sk_abc_def' } });
+      const jwt = new Request('https://example.com', { headers: { Authorization: 'Bearer eyJhbGciOi' } });
+
+      expect(extractApiKey(viaHeader)).toBe('sk_abc_def');
+      expect(extractApiKey(viaBearer)).toBe('sk_abc_def');
+      expect(extractApiKey(jwt)).toBeNull();
+    });
+
+    it("should never give a key more than its owner's current role", async () => {
+      const { record } = await service.createKey({ ownerId: 'user-1', name: 'Admin job', role: 'admin', scopes: [] });
+
+      expect(toPrincipal(record, { role: 'admin' }).role).toBe('admin');
+      expect(toPrincipal(record, { role: 'guest' }).role).toBe('guest');
+    });
+  });
+}
@@ -0,0 +1,230 @@
+/**
+ * Auth Errors Example
+ *
+ * Demonstrates one error vocabulary for every authentication and
+ * authorization failure:
+ * - An `AuthError` hierarchy with stable, machine-readable codes
+ * - A single serializer, `authErrorResponse`, used by every auth route and middleware
+ * - RFC 6750 `WWW-Authenticate` challenges on 401s (and on 403s for scope/MFA)
+ *
+ * Clients branch on `code`, never on `error` (the message may change):
+ * only `token_expired` means "refresh and retry"; other 401s mean the
+ * refresh would fail too and the user must sign in again.
+ *
+ * ```json
+ * { "error": "Token expired", "code": "token_expired" }
+ * ```
+ */
+
+/**
+ * Failures of a presented bearer token (JWT or API key)
+ */
+export type TokenErrorCode =
+  | 'token_expired'
+  | 'token_not_yet_valid'
+  | 'token_malformed'
+  | 'token_invalid'
+  | 'token_wrong_audience'
+  | 'token_wrong_issuer'
+  | 'token_revoked'
+  | 'invalid_api_key';
+
+/**
+ * Failures that mean "who are you?" (401)
+ */
+export type AuthenticationErrorCode =
+  | TokenErrorCode
+  | 'token_missing'
+  | 'invalid_credentials'
+  | 'invalid_refresh_token'
+  | 'invalid_mfa_code'
+  | 'invalid_login_code'
+  | 'external_login_failed'
+  | 'session_missing'
+  | 'session_expired';
+
+/**
+ * Failures that mean "you may not" (403)
+ */
+export type AuthorizationErrorCode =
+  | 'insufficient_scope'
+  | 'mfa_required'
+  | 'invalid_csrf_token'
+  | 'impersonation_not_allowed'
+  | 'org_mismatch';
+
+export type AuthErrorCode = AuthenticationErrorCode | AuthorizationErrorCode | 'rate_limited' | 'malformed_request';
+
+const REALM = 'api';
+
+/**
+ * Base class. The message is safe to return to clients.
+ */
+export class AuthError extends Error {
+  constructor(message: string, readonly code: AuthErrorCode, readonly status: number) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+export class AuthenticationError extends AuthError {
+  constructor(message: string, code: AuthenticationErrorCode, status = 401) {
+    super(message, code, status);
+    this.name = 'AuthenticationError';
+  }
+}
+
+/**
+ * Why a bearer token was rejected
+ */
+export class TokenError extends AuthenticationError {
+  declare readonly code: TokenErrorCode;
+
+  constructor(message: string, code: TokenErrorCode) {
+    super(message, code);
+    this.name = 'TokenError';
+  }
+}
+
+export class AuthorizationError extends AuthError {
+  declare readonly code: AuthorizationErrorCode;
+
+  /**
+   * @param scope - Permission the request lacked, advertised in the challenge
+   */
+  constructor(message: string, code: AuthorizationErrorCode, readonly scope?: string) {
+    super(message, code, 403);
+    this.name = 'AuthorizationError';
+  }
+}
+
+/**
+ * A request the auth checks can't read, e.g. a broken escape in the path (400)
+ */
+export class MalformedRequestError extends AuthError {
+  constructor(message: string) {
+    super(message, 'malformed_request', 400);
+    this.name = 'MalformedRequestError';
+  }
+}
+
+export class RateLimitError extends AuthError {
+  constructor(message: string, readonly retryAfter: number) {
+    super(message, 'rate_limited', 429);
+    this.name = 'RateLimitError';
+  }
+}
+
+/**
+ * Serialize an auth failure. Every auth route and middleware returns
+ * through here so status, body and headers stay consistent.
+ */
+export function authErrorResponse(error: AuthError): Response {
+  const headers = new Headers({ 'Content-Type': 'application/json' });
+  const challenge = bearerChallenge(error);
+
+  if (challenge) {
+    headers.set('WWW-Authenticate', challenge);
+  }
+
+  if (error instanceof RateLimitError) {
+    headers.set('Retry-After', String(error.retryAfter));
+  }
+
+  return new Response(JSON.stringify({ error: error.message, code: error.code }), {
+    status: error.status,
+    headers,
+  });
+}
+
+/**
+ * `WWW-Authenticate` value (RFC 6750 section 3, RFC 9470 for step-up MFA)
+ */
+function bearerChallenge(error: AuthError): string | null {
+  const params: Record<string, string> = { realm: REALM };
+
+  if (error instanceof TokenError) {
+    params.error = 'invalid_token';
+    params.error_description = error.message;
+  } else if (error instanceof AuthorizationError && error.code === 'insufficient_scope') {
+    params.error = 'insufficient_scope';
+    params.error_description = error.message;
+
+    if (error.scope) {
+      params.scope = error.scope;
+    }
+  } else if (error instanceof AuthorizationError && error.code === 'mfa_required') {
+    params.error = 'insufficient_user_authentication';
+    params.error_description = error.message;
+    params.acr_values = 'aal2';
+  } else if (error.status !== 401) {
+    // Other 403s and 429s are not bearer token problems
+    return null;
+  }
+
+  // Missing credentials get a bare challenge with no error code (RFC 6750 section 3.1)
+  const attributes = Object.entries(params).map(([key, value]) => `${key}="${value.replace(/["\\]/g, '')}"`);
+
+  return `Bearer ${attributes.join(', ')}`;
+}
+
+/**
+ * Testing
+ */
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+
+  describe('authErrorResponse', () => {
+    it('should return the message and a stable code', async () => {
+      const response = authErrorResponse(new TokenError('Token expired', 'token_expired'));
+
+      expect(response.status).toBe(401);
+      expect(await response.json()).toEqual({ error: 'Token expired', code: 'token_expired' });
+    });
+
+    it('should challenge rejected tokens with invalid_token', () => {
+      const response = authErrorResponse(new TokenError('Token expired', 'token_expired'));
+
+      expect(response.headers.get('WWW-Authenticate')).toBe(
+        'Bearer realm="api", error="invalid_token", error_description="Token expired"'
+      );
+    });
+
+    it('should send a bare challenge when credentials are missing', () => {
+      const response = authErrorResponse(new AuthenticationError('Missing authentication token', 'token_missing'));
+
+      expect(response.headers.get('WWW-Authenticate')).toBe('Bearer realm="api"');
+    });
+
+    it('should advertise the missing scope on 403s', () => {
+      const error = new AuthorizationError('Insufficient permissions', 'insufficient_scope', 'users:delete');
+      const response = authErrorResponse(error);
+
+      expect(response.status).toBe(403);
+      expect(response.headers.get('WWW-Authenticate')).toBe(
+        'Bearer realm="api", error="insufficient_scope", error_description="Insufficient permissions", scope="users:delete"'
+      );
+    });
+
+    it('should ask for a second factor when MFA is required', () => {
+      const response = authErrorResponse(new AuthorizationError('MFA required', 'mfa_required'));
+
+      expect(response.headers.get('WWW-Authenticate')).toContain('error="insufficient_user_authentication"');
+      expect(response.headers.get('WWW-Authenticate')).toContain('acr_values="aal2"');
+    });
+
+    it('should leave other 403s without a challenge', () => {
+      const response = authErrorResponse(new AuthorizationError('Invalid CSRF token', 'invalid_csrf_token'));
+
+      expect(response.headers.has('WWW-Authenticate')).toBe(false);
+    });
+
+    it('should set Retry-After on rate limits', async () => {
+      const response = authErrorResponse(new RateLimitError('Too many login attempts', 120));
+
+      expect(response.status).toBe(429);
+      expect(response.headers.get('Retry-After')).toBe('120');
+      expect(await response.json()).toEqual({ error: 'Too many login attempts', code: 'rate_limited' });
+    });
+  });
+}
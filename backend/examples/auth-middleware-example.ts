@@ -4,71 +4,207 @@
  * Demonstrates JWT-based authentication for Cloudflare Workers.
  */
 
-import { jwtVerify, SignJWT } from 'jose';
-
-export interface Env {
+import { errors, jwtVerify, SignJWT } from 'jose';
+import {
+  CredentialError,
+  CredentialService,
+  D1CredentialStore,
+  InMemoryCredentialStore,
+  isValidEmail,
+  PasswordHasher,
+  type UserRecord,
+} from './credentials-example';
+import { handleJwksRequest, JwtKeyStore, type JwtAlgorithm } from './jwt-keys-example';
+import { SecretManager, type VersionedEncryptionKeys, type VersionedJwtSecrets } from './secrets-example';
+import { RefreshTokenFamilies } from './refresh-tokens-example';
+import { defaultPolicy, type OwnedResource, type Permission, type Role } from './permissions-example';
+import { AUTHENTICATED, PUBLIC, roles, Router, withMfa } from './router-example';
+import { ApiKeyService, D1ApiKeyStore, extractApiKey, toPrincipal } from './api-keys-example';
+import { KVRateLimitStore, LoginThrottle, tooManyAttempts } from './login-throttle-example';
+import { D1MfaStore, MfaService } from './mfa-example';
+import { PasswordlessLogin, SendGridMailSender } from './passwordless-example';
+import {
+  D1IdentityStore,
+  OidcClient,
+  OidcError,
+  oidcProviders,
+  oidcStateCookie,
+  readOidcStateCookie,
+  type IdentityStore,
+} from './oidc-example';
+import { TokenRevocationList } from './token-revocation-example';
+import { FeatureFlags, handleFlagRoute } from './feature-flags-example';
+import { Config, type Env as ConfigEnv, type TokenSettings } from './config-example';
+import {
+  D1MembershipStore,
+  hasOrgRole,
+  isCrossTenantRequest,
+  type Membership,
+  type MembershipStore,
+  type OrgRole,
+} from './organizations-example';
+import {
+  D1ImpersonationAuditLog,
+  IMPERSONATION_TTL_SECONDS,
+  isBlockedWhileImpersonating,
+  isImpersonating,
+  type ImpersonationAuditLog,
+} from './impersonation-example';
+import {
+  AuthenticationError,
+  AuthError,
+  authErrorResponse,
+  AuthorizationError,
+  TokenError,
+} from './auth-errors-example';
+
+export interface Env extends VersionedJwtSecrets, VersionedEncryptionKeys {
+  // HS256 key ring: JWT_SECRET_V<n> (newest signs), then JWT_SECRET
   JWT_SECRET: string;
+  DB: D1Database;
+  REFRESH_TOKENS: KVNamespace;
+  REVOKED_TOKENS: KVNamespace;
+  RATE_LIMITS: KVNamespace;
+  BLIND_INDEX_KEY: string; // keys login throttle counters (see login-throttle-example.ts)
+
+  // Passwordless login (see passwordless-example.ts)
+  PASSWORDLESS: KVNamespace;
+  SENDGRID_API_KEY: string;
+  MAIL_FROM: string;
+  APP_URL: string;
+
+  // Social login (see oidc-example.ts)
+  OIDC_STATE: KVNamespace;
+  GOOGLE_CLIENT_ID?: string;
+  GOOGLE_CLIENT_SECRET?: string;
+
+  // Feature flags (see feature-flags-example.ts)
+  KV: KVNamespace;
+
+  // Optional asymmetric signing (see jwt-keys-example.ts)
+  JWT_ALG?: JwtAlgorithm;
+  JWT_PRIVATE_KEY?: string;
+  JWT_KEY_ID?: string;
+  JWT_HS256_ACCEPT_UNTIL?: string;
+
+  // Selects token issuer, audience and lifetimes (see config-example.ts)
+  ENVIRONMENT?: ConfigEnv['ENVIRONMENT'];
 }
 
 export interface JWTPayload {
   userId: string;
   email: string;
-  role: 'admin' | 'user';
+  role: Role;
   exp?: number;
   iat?: number;
+  jti?: string;
+
+  // How the user signed in (RFC 8176), e.g. ['pwd'] or ['pwd', 'otp']
+  amr?: AuthMethod[];
+  acr?: 'aal1' | 'aal2';
+
+  // Set when authenticated with an API key instead of a JWT
+  apiKeyId?: string;
+  scopes?: Permission[];
+
+  // Set while an admin impersonates this user (RFC 8693): the admin's identity
+  act?: { sub: string; email: string };
+
+  // Active organization and the user's role in it (see organizations-example.ts)
+  orgId?: string;
+  orgRole?: OrgRole;
 }
 
+// 'email' (magic link or emailed code) and 'oidc' (external provider) are not in the RFC 8176 registry
+export type AuthMethod = 'pwd' | 'otp' | 'email' | 'oidc';
+
 export interface AuthenticatedRequest extends Request {
   user?: JWTPayload;
 }
 
 /**
  * Authentication Service
+ *
+ * Issuer, audience, lifetimes and clock-skew tolerance come from
+ * `Config.tokens` for the current environment.
  */
 export class AuthService {
-  constructor(private env: Env) {}
+  private keys: JwtKeyStore;
+
+  constructor(private env: Env, readonly settings: TokenSettings = new Config(env).tokens) {
+    this.keys = new JwtKeyStore(env);
+  }
 
   /**
-   * Create a JWT access token
+   * Create a JWT access token (with a unique `jti` so it can be revoked)
    */
-  async createAccessToken(payload: Omit<JWTPayload, 'exp' | 'iat'>): Promise<string> {
-    const secret = new TextEncoder().encode(this.env.JWT_SECRET);
-
-    const token = await new SignJWT(payload as any)
-      .setProtectedHeader({ alg: 'HS256' })
-      .setIssuedAt()
-      .setExpirationTime('24h')
-      .sign(secret);
+  async createAccessToken(payload: Omit<JWTPayload, 'exp' | 'iat' | 'jti'>): Promise<string> {
+    return this.sign({ ...payload }, this.settings.accessTokenTtlSeconds);
+  }
 
-    return token;
+  /**
+   * Create a refresh token (longer expiry, one-time use within its family)
+   */
+  async createRefreshToken(
+    userId: string,
+    family: { familyId: string; jti: string },
+    amr: AuthMethod[] = ['pwd'],
+    orgId?: string
+  ): Promise<string> {
+    // `amr` carries the login's assurance level over to refreshed access tokens,
+    // `orgId` the active organization (its role is re-read on refresh)
+    return this.sign(
+      { userId, type: 'refresh', fid: family.familyId, amr, orgId },
+      this.settings.refreshTokenTtlSeconds,
+      family.jti
+    );
   }
 
   /**
-   * Create a refresh token (longer expiry)
+   * Create a short-lived token proving the password step of an MFA login.
+   * It is only accepted by `/auth/mfa/verify`, never as an access token.
    */
-  async createRefreshToken(userId: string): Promise<string> {
-    const secret = new TextEncoder().encode(this.env.JWT_SECRET);
+  async createMfaPendingToken(userId: string, amr: AuthMethod[]): Promise<string> {
+    return this.sign({ userId, type: 'mfa_pending', amr }, 5 * 60);
+  }
 
-    const token = await new SignJWT({ userId, type: 'refresh' })
-      .setProtectedHeader({ alg: 'HS256' })
-      .setIssuedAt()
-      .setExpirationTime('7d')
-      .sign(secret);
+  /**
+   * Create a short-lived access token for `subject`, acting as `actor`.
+   * No second factor is claimed, so MFA-gated routes stay closed.
+   */
+  async createImpersonationToken(
+    subject: Pick<JWTPayload, 'userId' | 'email' | 'role'>,
+    actor: Pick<JWTPayload, 'userId' | 'email'>,
+    jti: string
+  ): Promise<string> {
+    const claims = { userId: subject.userId, email: subject.email, role: subject.role };
+    return this.sign({ ...claims, act: { sub: actor.userId, email: actor.email } }, IMPERSONATION_TTL_SECONDS, jti);
+  }
 
-    return token;
+  /**
+   * Create a signed magic-link token. It is single-use because its `jti`
+   * must still be in KV when redeemed (see passwordless-example.ts).
+   */
+  async createMagicLinkToken(email: string, jti: string): Promise<string> {
+    return this.sign({ email, type: 'magic_link' }, 15 * 60, jti);
   }
 
   /**
-   * Verify JWT token
+   * Verify JWT token (key is selected by the token's `alg`/`kid` header).
+   * Throws a `TokenError` saying why the token was rejected.
    */
   async verifyToken(token: string): Promise<JWTPayload> {
     try {
-      const secret = new TextEncoder().encode(this.env.JWT_SECRET);
-      const { payload } = await jwtVerify(token, secret);
+      const { payload } = await jwtVerify(token, this.keys.getVerificationKey, {
+        algorithms: this.keys.algorithms,
+        issuer: this.settings.issuer,
+        audience: this.settings.audience,
+        clockTolerance: this.settings.clockToleranceSeconds,
+      });
 
       return payload as JWTPayload;
     } catch (error) {
-      throw new Error('Invalid or expired token');
+      throw toTokenError(error);
     }
   }
 
@@ -90,59 +226,154 @@ export class AuthService {
 
     return parts[1];
   }
+
+  private async sign(claims: Record<string, unknown>, ttlSeconds: number, jti = crypto.randomUUID()): Promise<string> {
+    const { alg, kid, key } = await this.keys.getSigningKey();
+
+    const token = await new SignJWT(claims)
+      .setProtectedHeader({ alg, kid })
+      .setIssuer(this.settings.issuer)
+      .setAudience(this.settings.audience)
+      .setJti(jti)
+      .setIssuedAt()
+      .setExpirationTime(`${ttlSeconds}s`)
+      .sign(key);
+
+    return token;
+  }
+}
+
+/**
+ * Refresh token families, kept as long as refresh tokens live
+ */
+function refreshFamilies(env: Env): RefreshTokenFamilies {
+  return new RefreshTokenFamilies(env.REFRESH_TOKENS, new Config(env).tokens.refreshTokenTtlSeconds);
+}
+
+/**
+ * Revocation list whose per-user cutoffs outlive the longest-lived token
+ */
+function revocationList(env: Env): TokenRevocationList {
+  return new TokenRevocationList(env.REVOKED_TOKENS, Date.now, new Config(env).tokens.refreshTokenTtlSeconds);
+}
+
+function featureFlags(env: Env): FeatureFlags {
+  return new FeatureFlags(new Config(env).kv);
+}
+
+function toTokenError(error: unknown): TokenError {
+  if (error instanceof errors.JWTExpired) {
+    return new TokenError('Token expired', 'token_expired');
+  }
+
+  if (error instanceof errors.JWTClaimValidationFailed) {
+    switch (error.claim) {
+      case 'nbf':
+        return new TokenError('Token not yet valid', 'token_not_yet_valid');
+      case 'aud':
+        return new TokenError('Token not intended for this audience', 'token_wrong_audience');
+      case 'iss':
+        return new TokenError('Token from an unexpected issuer', 'token_wrong_issuer');
+    }
+  }
+
+  if (error instanceof errors.JWSInvalid || error instanceof errors.JWTInvalid) {
+    return new TokenError('Malformed token', 'token_malformed');
+  }
+
+  return new TokenError('Invalid token', 'token_invalid');
 }
 
 /**
  * Authentication Middleware
+ *
+ * JWTs are also checked against the revocation list
+ * (see token-revocation-example.ts). API keys are checked against their
+ * owner's account: a deleted owner's keys stop working.
  */
 export async function authMiddleware(
   request: Request,
-  env: Env
+  env: Env,
+  apiKeys: ApiKeyService = new ApiKeyService(new D1ApiKeyStore(env.DB)),
+  revocations: TokenRevocationList = revocationList(env),
+  owners: Pick<CredentialService, 'getUser'> = new CredentialService(new D1CredentialStore(env.DB))
 ): Promise<{ user: JWTPayload } | Response> {
   const authService = new AuthService(env);
 
+  // Machine clients: X-API-Key header or `Bearer sk_...`
+  const apiKey = extractApiKey(request);
+
+  if (apiKey) {
+    const record = await apiKeys.verifyKey(apiKey);
+    const owner = record && (await owners.getUser(record.ownerId));
+
+    if (!record || !owner) {
+      return authErrorResponse(new TokenError('Invalid or revoked API key', 'invalid_api_key'));
+    }
+
+    const principal = toPrincipal(record, owner);
+    const mismatch = await tenantMismatch(request, principal);
+
+    return mismatch ?? { user: principal };
+  }
+
   // Extract token from Authorization header
   const token = authService.extractToken(request);
 
   if (!token) {
-    return new Response(
-      JSON.stringify({ error: 'Missing authentication token' }),
-      {
-        status: 401,
-        headers: { 'Content-Type': 'application/json' },
-      }
-    );
+    return authErrorResponse(new AuthenticationError('Missing authentication token', 'token_missing'));
   }
 
   // Verify token
   try {
     const user = await authService.verifyToken(token);
 
-    return { user };
+    // Refresh, MFA-pending and magic-link tokens share the signing keys but are not access tokens
+    if ((user as { type?: string }).type) {
+      throw new TokenError('Invalid token', 'token_invalid');
+    }
+
+    if (await revocations.isRevoked(user)) {
+      throw new TokenError('Token has been revoked', 'token_revoked');
+    }
+
+    if (isImpersonating(user) && isBlockedWhileImpersonating(request)) {
+      return authErrorResponse(new AuthorizationError('Not allowed while impersonating', 'impersonation_not_allowed'));
+    }
+
+    const mismatch = await tenantMismatch(request, user);
+
+    return mismatch ?? { user };
   } catch (error) {
-    return new Response(
-      JSON.stringify({ error: 'Invalid or expired token' }),
-      {
-        status: 401,
-        headers: { 'Content-Type': 'application/json' },
-      }
-    );
+    return authErrorResponse(error instanceof TokenError ? error : new TokenError('Invalid token', 'token_invalid'));
+  }
+}
+
+/**
+ * 403 if the request names another organization than the token's, 400 if
+ * its path can't be read
+ */
+async function tenantMismatch(request: Request, user: JWTPayload): Promise<Response | null> {
+  try {
+    return (await isCrossTenantRequest(request, user))
+      ? authErrorResponse(new AuthorizationError('Organization does not match token', 'org_mismatch'))
+      : null;
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error);
+    }
+
+    throw error;
   }
 }
 
 /**
  * Role-Based Authorization Middleware
  */
-export function requireRole(...allowedRoles: Array<'admin' | 'user'>) {
+export function requireRole(...allowedRoles: Role[]) {
   return (user: JWTPayload): Response | null => {
     if (!allowedRoles.includes(user.role)) {
-      return new Response(
-        JSON.stringify({ error: 'Insufficient permissions' }),
-        {
-          status: 403,
-          headers: { 'Content-Type': 'application/json' },
-        }
-      );
+      return forbidden();
     }
 
     return null; // Authorization successful
@@ -150,307 +381,1896 @@ export function requireRole(...allowedRoles: Array<'admin' | 'user'>) {
 }
 
 /**
- * Worker Entry Point with Authentication
+ * Permission-Based Authorization Middleware
+ *
+ * Prefer this over `requireRole`: roles map to permissions in
+ * permissions-example.ts. Pass the resource for `:own` permission checks.
  */
-export default {
-  async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
-    const url = new URL(request.url);
+export function requirePermission(permission: Permission, resource?: OwnedResource) {
+  return (user: JWTPayload): Response | null => {
+    if (!defaultPolicy.can(user, permission, resource)) {
+      return forbidden(permission);
+    }
+
+    return null; // Authorization successful
+  };
+}
 
-    // Public routes (no auth required)
-    if (url.pathname === '/auth/login' || url.pathname === '/auth/register') {
-      return handlePublicRoute(request, env);
+/**
+ * Organization Role Middleware
+ *
+ * Requires at least `minimum` in the token's active organization. Which
+ * organization a request may touch is checked by `authMiddleware`.
+ */
+export function requireOrgRole(minimum: OrgRole) {
+  return (user: JWTPayload): Response | null => {
+    if (!hasOrgRole(user.orgRole, minimum)) {
+      return forbidden();
     }
 
-    // Protected routes (auth required)
-    const authResult = await authMiddleware(request, env);
+    return null; // Authorization successful
+  };
+}
 
-    if (authResult instanceof Response) {
-      // Authentication failed
-      return authResult;
+/**
+ * MFA Middleware
+ *
+ * Requires a token issued after a second factor (`acr: 'aal2'`). API keys
+ * never satisfy it.
+ */
+export function requireMfa() {
+  return (user: JWTPayload): Response | null => {
+    if (user.acr !== 'aal2') {
+      return authErrorResponse(new AuthorizationError('MFA required', 'mfa_required'));
     }
 
-    // Authentication successful
-    const { user } = authResult;
+    return null; // Authorization successful
+  };
+}
 
-    // Admin-only routes
-    if (url.pathname.startsWith('/admin')) {
-      const authzError = requireRole('admin')(user);
-      if (authzError) {
-        return authzError;
-      }
+function forbidden(scope?: string): Response {
+  return authErrorResponse(new AuthorizationError('Insufficient permissions', 'insufficient_scope', scope));
+}
 
-      return handleAdminRoute(request, user, env);
-    }
+/**
+ * Route Table
+ *
+ * Every route declares its auth policy; unregistered paths get a 404
+ * (see router-example.ts). Review the full table with `listRoutes(routes)`.
+ */
+export const routes = new Router<Env, JWTPayload>({
+  authenticate: authMiddleware,
+  authorize: (user, allowedRoles, { mfa }) =>
+    requireRole(...(allowedRoles as Role[]))(user) ?? (mfa ? requireMfa()(user) : null),
+})
+  // Public signing keys for downstream verifiers
+  .add('GET', '/.well-known/jwks.json', PUBLIC, async (request, { env }) => handleJwksRequest(env))
+
+  // Public routes (no auth required)
+  .add('POST', '/auth/login', PUBLIC, async (request, { env }) => handlePublicRoute(request, env))
+  .add('POST', '/auth/register', PUBLIC, async (request, { env }) => handlePublicRoute(request, env))
+  .add('POST', '/auth/refresh', PUBLIC, async (request, { env }) => handlePublicRoute(request, env))
+  .add('POST', '/auth/mfa/verify', PUBLIC, async (request, { env }) => handlePublicRoute(request, env))
+  .add('POST', '/auth/passwordless/start', PUBLIC, async (request, { env }) => handlePublicRoute(request, env))
+  .add('POST', '/auth/passwordless/verify', PUBLIC, async (request, { env }) => handlePublicRoute(request, env))
+  .add('GET', '/auth/oidc/:provider/start', PUBLIC, async (request, { env, params }) => handleOidcRoute(request, env, params.provider))
+  .add('GET', '/auth/oidc/:provider/callback', PUBLIC, async (request, { env, params }) => handleOidcRoute(request, env, params.provider))
+
+  // Logout: revoke this token, or every token for the user
+  .add('POST', '/auth/logout', AUTHENTICATED, async (request, { env, user }) => handleLogout(request, user, env))
+  .add('POST', '/auth/logout-all', AUTHENTICATED, async (request, { env, user }) => handleLogout(request, user, env))
+
+  // Re-scope the session to another of the user's organizations
+  .add('POST', '/auth/switch-org', AUTHENTICATED, async (request, { env, user }) => handleSwitchOrg(request, user, env))
+
+  // End an impersonation session (called with the impersonation token)
+  .add('POST', '/auth/impersonate/stop', AUTHENTICATED, async (request, { env, user }) => handleImpersonationStop(user, env))
+
+  // MFA enrollment (registered before the /api/* catch-all)
+  .add('POST', '/api/mfa/enroll', AUTHENTICATED, async (request, { env, user }) => handleMfaEnrollment(request, user, env))
+  .add('POST', '/api/mfa/confirm', AUTHENTICATED, async (request, { env, user }) => handleMfaEnrollment(request, user, env))
+
+  // Regular protected routes
+  .add('*', '/api/*', AUTHENTICATED, async (request, { env, user }) => handleProtectedRoute(request, user, env))
+
+  // Admin-only routes, second factor required
+  .add('POST', '/admin/users/:id/revoke-tokens', withMfa(roles('admin')), async (request, { env, params }) => {
+    // After a role change, the user's outstanding tokens must not keep the old role
+    await revocationList(env).revokeAllForUser(params.id);
+    return new Response(null, { status: 204 });
+  })
+  .add('POST', '/admin/users/:id/impersonate', withMfa(roles('admin')), async (request, { env, user, params }) =>
+    handleImpersonationStart(request, user, env, params.id)
+  )
+  .add('GET', '/admin/flags', withMfa(roles('admin')), async (request, { env }) => handleFlagRoute(request, featureFlags(env)))
+  .add('PUT', '/admin/flags/:key', withMfa(roles('admin')), async (request, { env, params }) =>
+    handleFlagRoute(request, featureFlags(env), params.key)
+  )
+  .add('*', '/admin/*', withMfa(roles('admin')), async (request, { env, user }) => handleAdminRoute(request, user, env));
 
-    // Regular protected routes
-    return handleProtectedRoute(request, user, env);
+/**
+ * Worker Entry Point with Authentication
+ */
+export default {
+  async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
+    return routes.handle(request, env);
   },
 };
 
 /**
- * Login Handler
+ * Services used by the public auth routes (override in tests)
+ */
+export interface AuthDependencies {
+  credentials: CredentialService;
+  throttle: LoginThrottle;
+  mfa: MfaService;
+  passwordless: PasswordlessLogin;
+  revocations: TokenRevocationList;
+  identities: IdentityStore;
+  impersonations: ImpersonationAuditLog;
+  memberships: MembershipStore;
+  /** OIDC client for a provider ID, or null if the provider isn't configured */
+  oidc: (provider: string, origin: string) => OidcClient | null;
+}
+
+function resolveDependencies(env: Env, overrides: Partial<AuthDependencies>): AuthDependencies {
+  return {
+    credentials: overrides.credentials ?? new CredentialService(new D1CredentialStore(env.DB)),
+    throttle: overrides.throttle ?? new LoginThrottle(new KVRateLimitStore(env.RATE_LIMITS), new SecretManager(env)),
+    mfa: overrides.mfa ?? new MfaService(new D1MfaStore(env.DB, env)),
+    passwordless:
+      overrides.passwordless ??
+      new PasswordlessLogin(
+        env.PASSWORDLESS,
+        new AuthService(env),
+        new SendGridMailSender(new SecretManager(env), env.MAIL_FROM),
+        env.APP_URL
+      ),
+    revocations: overrides.revocations ?? revocationList(env),
+    identities: overrides.identities ?? new D1IdentityStore(env.DB),
+    impersonations: overrides.impersonations ?? new D1ImpersonationAuditLog(env.DB),
+    memberships: overrides.memberships ?? new D1MembershipStore(env.DB),
+    oidc:
+      overrides.oidc ??
+      ((provider, origin) => {
+        const config = oidcProviders(env, origin)[provider];
+        return config ? new OidcClient(config, env.OIDC_STATE) : null;
+      }),
+  };
+}
+
+/**
+ * Login & Registration Handler
+ *
+ * Users with MFA enabled get `{ mfaRequired: true, mfaToken }` from
+ * `/auth/login` and exchange it plus a code at `/auth/mfa/verify`.
  */
-async function handlePublicRoute(request: Request, env: Env): Promise<Response> {
+export async function handlePublicRoute(
+  request: Request,
+  env: Env,
+  overrides: Partial<AuthDependencies> = {}
+): Promise<Response> {
   const url = new URL(request.url);
+  const deps = resolveDependencies(env, overrides);
+  const { credentials, throttle, mfa } = deps;
+
+  if (request.method !== 'POST') {
+    return new Response('Method not allowed', { status: 405 });
+  }
+
+  if (url.pathname === '/auth/refresh') {
+    const { refreshToken } = await request.json<{ refreshToken: string }>();
+    const result = await refreshAccessToken(refreshToken, env, credentials, deps.revocations, deps.memberships);
+
+    if (result instanceof Response) {
+      return result;
+    }
+
+    return new Response(JSON.stringify(result), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  if (url.pathname === '/auth/mfa/verify') {
+    const { mfaToken, code } = await request.json<{ mfaToken: string; code: string }>();
+    return verifyMfaLogin(request, env, mfaToken, code, deps);
+  }
+
+  if (url.pathname.startsWith('/auth/passwordless/')) {
+    return handlePasswordlessRoute(request, env, deps);
+  }
+
+  const { email, password } = await request.json<{ email: string; password: string }>();
 
   if (url.pathname === '/auth/login') {
-    if (request.method !== 'POST') {
-      return new Response('Method not allowed', { status: 405 });
+    const ip = request.headers.get('CF-Connecting-IP') ?? 'unknown';
+    const decision = await throttle.check(ip, email);
+
+    if (!decision.allowed) {
+      return tooManyAttempts(decision.retryAfter);
     }
 
-    const { email, password } = await request.json<{ email: string; password: string }>();
+    const record = await credentials.verifyCredentials(email, password);
 
-    // TODO: Validate credentials against database
-    // This is a simplified example
-    const user = {
-      userId: '123',
-      email: email,
-      role: 'user' as const,
-    };
+    if (!record) {
+      await throttle.recordFailure(email);
 
-    const authService = new AuthService(env);
-    const accessToken = await authService.createAccessToken(user);
-    const refreshToken = await authService.createRefreshToken(user.userId);
+      return authErrorResponse(new AuthenticationError('Invalid email or password', 'invalid_credentials'));
+    }
 
-    return new Response(
-      JSON.stringify({
-        accessToken,
-        refreshToken,
-        user,
-      }),
-      {
-        status: 200,
-        headers: { 'Content-Type': 'application/json' },
+    await throttle.recordSuccess(email);
+    return completeLogin(record, env, mfa, ['pwd']);
+  }
+
+  if (url.pathname === '/auth/register') {
+    try {
+      const record = await credentials.register(email, password);
+
+      return issueTokens(record, env, 201);
+    } catch (error) {
+      if (error instanceof CredentialError) {
+        return new Response(
+          JSON.stringify({ error: error.message }),
+          {
+            status: error.status,
+            headers: { 'Content-Type': 'application/json' },
+          }
+        );
       }
-    );
+
+      throw error;
+    }
   }
 
   return new Response('Not found', { status: 404 });
 }
 
 /**
- * Protected Route Handler
+ * Passwordless Login Handler
+ *
+ * `start` always answers 202 so it can't be used to probe for accounts;
+ * the first verified sign-in creates the account.
  */
-async function handleProtectedRoute(
+async function handlePasswordlessRoute(
   request: Request,
-  user: JWTPayload,
-  env: Env
+  env: Env,
+  { credentials, throttle, mfa, passwordless }: AuthDependencies
 ): Promise<Response> {
-  // User is authenticated, handle request
-  return new Response(
-    JSON.stringify({
-      message: 'Protected resource',
-      user: {
-        userId: user.userId,
-        email: user.email,
-        role: user.role,
-      },
-    }),
-    {
-      status: 200,
-      headers: { 'Content-Type': 'application/json' },
-    }
-  );
-}
+  const { pathname } = new URL(request.url);
+  const ip = request.headers.get('CF-Connecting-IP') ?? 'unknown';
+  const body = await request.json<{ email?: string; token?: string; code?: string }>();
+  const email = body.email ?? '';
 
-/**
- * Admin Route Handler
- */
-async function handleAdminRoute(
-  request: Request,
-  user: JWTPayload,
-  env: Env
-): Promise<Response> {
-  // Admin-only resource
-  return new Response(
-    JSON.stringify({
-      message: 'Admin resource',
-      user: {
-        userId: user.userId,
-        email: user.email,
-        role: user.role,
-      },
-    }),
-    {
-      status: 200,
-      headers: { 'Content-Type': 'application/json' },
+  if (pathname === '/auth/passwordless/start') {
+    if (!isValidEmail(email)) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid email format' }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
     }
-  );
-}
 
-/**
- * Refresh Token Handler
- */
-export async function refreshAccessToken(
-  refreshToken: string,
-  env: Env
-): Promise<{ accessToken: string } | Response> {
-  const authService = new AuthService(env);
-
-  try {
-    const payload = await authService.verifyToken(refreshToken);
+    const decision = await throttle.check(ip, email);
 
-    // Verify it's a refresh token
-    if ((payload as any).type !== 'refresh') {
-      throw new Error('Invalid refresh token');
+    if (!decision.allowed) {
+      return tooManyAttempts(decision.retryAfter);
     }
 
-    // Create new access token
-    const newAccessToken = await authService.createAccessToken({
-      userId: payload.userId,
-      email: payload.email,
-      role: payload.role,
-    });
+    await passwordless.start(email);
 
-    return { accessToken: newAccessToken };
-  } catch (error) {
     return new Response(
-      JSON.stringify({ error: 'Invalid refresh token' }),
+      JSON.stringify({ message: 'Check your email for a sign-in link' }),
       {
-        status: 401,
+        status: 202,
         headers: { 'Content-Type': 'application/json' },
       }
     );
   }
-}
 
-/**
- * Session Management (alternative to JWT)
- * 
- * Use KV to store sessions instead of stateless JWT.
- * Pros: Can revoke sessions, track active sessions
- * Cons: Requires KV lookup on every request (10-50ms latency)
- */
-export interface Env_WithKV extends Env {
-  SESSIONS: KVNamespace;
-}
+  if (pathname !== '/auth/passwordless/verify') {
+    return new Response('Not found', { status: 404 });
+  }
 
-export class SessionManager {
-  constructor(private env: Env_WithKV) {}
+  let verifiedEmail: string | null;
 
-  /**
-   * Create a new session
-   */
-  async createSession(user: Omit<JWTPayload, 'exp' | 'iat'>): Promise<string> {
-    const sessionId = crypto.randomUUID();
-
-    // Store session in KV
-    await this.env.SESSIONS.put(
-      `session:${sessionId}`,
-      JSON.stringify(user),
-      { expirationTtl: 86400 } // 24 hours
-    );
+  if (body.token) {
+    verifiedEmail = await passwordless.verifyLink(body.token);
+  } else {
+    const decision = await throttle.check(ip, email);
 
-    return sessionId;
-  }
+    if (!decision.allowed) {
+      return tooManyAttempts(decision.retryAfter);
+    }
 
-  /**
-   * Get session data
-   */
-  async getSession(sessionId: string): Promise<JWTPayload | null> {
-    const data = await this.env.SESSIONS.get(`session:${sessionId}`);
+    verifiedEmail = await passwordless.verifyCode(email, String(body.code ?? ''));
 
-    if (!data) {
-      return null;
+    // Wrong codes count toward the account lockout, across resent codes
+    if (!verifiedEmail) {
+      await throttle.recordFailure(email);
     }
-
-    return JSON.parse(data);
   }
 
-  /**
-   * Revoke session
-   */
-  async revokeSession(sessionId: string): Promise<void> {
-    await this.env.SESSIONS.delete(`session:${sessionId}`);
+  if (!verifiedEmail) {
+    return authErrorResponse(new AuthenticationError('Invalid or expired sign-in link or code', 'invalid_login_code'));
   }
+
+  const record = await credentials.findOrCreateByEmail(verifiedEmail);
+  return completeLogin(record, env, mfa, ['email']);
 }
 
 /**
- * Testing
+ * Social Login Handler (OIDC)
+ *
+ * `start` redirects to the provider; `callback` validates the result and
+ * signs the user in. A known provider identity maps straight to its user;
+ * otherwise the provider's verified email links to (or creates) the local
+ * account. Only configure providers that are authoritative for the emails
+ * they assert, or an attacker's provider could claim a victim's address.
  */
-import { describe, it, expect, beforeEach } from 'vitest';
+export async function handleOidcRoute(
+  request: Request,
+  env: Env,
+  providerId: string,
+  overrides: Partial<AuthDependencies> = {}
+): Promise<Response> {
+  const url = new URL(request.url);
+  const { credentials, mfa, identities, oidc } = resolveDependencies(env, overrides);
+  const client = oidc(providerId, url.origin);
 
-describe('AuthService', () => {
-  let mockEnv: Env;
-  let authService: AuthService;
+  if (!client) {
+    return new Response(
+      JSON.stringify({ error: 'Unknown provider' }),
+      {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
 
-  beforeEach(() => {
-    mockEnv = {
-      JWT_SECRET: 'test-secret-key-12345',
-    };
-    authService = new AuthService(mockEnv);
-  });
+  if (url.pathname.endsWith('/start')) {
+    const { url: location, state } = await client.createAuthorization();
 
-  it('should create and verify access token', async () => {
-    const payload: Omit<JWTPayload, 'exp' | 'iat'> = {
-      userId: '123',
-      email: 'test@example.com',
-      role: 'user',
-    };
+    return new Response(null, {
+      status: 302,
+      headers: { Location: location, 'Set-Cookie': oidcStateCookie(state) },
+    });
+  }
+
+  let response: Response;
+
+  try {
+    const identity = await client.handleCallback(url, readOidcStateCookie(request));
+    const linkedUserId = await identities.findUserId(identity.provider, identity.subject);
+    let record = linkedUserId ? await credentials.getUser(linkedUserId) : null;
+
+    if (!record) {
+      if (!identity.email || !identity.emailVerified) {
+        throw new OidcError('Provider did not return a verified email');
+      }
+
+      record = await credentials.findOrCreateByEmail(identity.email);
+      await identities.link(identity.provider, identity.subject, record.id);
+    }
+
+    response = await completeLogin(record, env, mfa, ['oidc']);
+  } catch (error) {
+    if (!(error instanceof OidcError)) {
+      throw error;
+    }
+
+    response = authErrorResponse(error);
+  }
+
+  // The state is single-use either way
+  response.headers.append('Set-Cookie', oidcStateCookie(null));
+  return response;
+}
+
+/**
+ * Finish a first-factor login: ask for the second factor if the user has
+ * MFA enabled, otherwise issue tokens
+ */
+async function completeLogin(record: UserRecord, env: Env, mfa: MfaService, amr: AuthMethod[]): Promise<Response> {
+  if (await mfa.isEnrolled(record.id)) {
+    const mfaToken = await new AuthService(env).createMfaPendingToken(record.id, amr);
+
+    return new Response(
+      JSON.stringify({ mfaRequired: true, mfaToken }),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+
+  return issueTokens(record, env, 200, amr);
+}
+
+/**
+ * Second login step: exchange an `mfa_pending` token and a TOTP or
+ * recovery code for real tokens. Wrong codes count toward the account
+ * lockout, so codes can't be brute-forced within the token's lifetime.
+ */
+async function verifyMfaLogin(
+  request: Request,
+  env: Env,
+  mfaToken: string,
+  code: string,
+  { credentials, throttle, mfa }: AuthDependencies
+): Promise<Response> {
+  const invalid = () => authErrorResponse(new AuthenticationError('Invalid MFA code', 'invalid_mfa_code'));
+
+  let userId: string;
+  let amr: AuthMethod[];
+
+  try {
+    const payload = await new AuthService(env).verifyToken(mfaToken);
+
+    if ((payload as { type?: string }).type !== 'mfa_pending') {
+      return invalid();
+    }
+
+    userId = payload.userId;
+    amr = payload.amr ?? ['pwd'];
+  } catch (error) {
+    return invalid();
+  }
+
+  const record = await credentials.getUser(userId);
+
+  if (!record) {
+    return invalid();
+  }
+
+  const ip = request.headers.get('CF-Connecting-IP') ?? 'unknown';
+  const decision = await throttle.check(ip, record.email);
+
+  if (!decision.allowed) {
+    return tooManyAttempts(decision.retryAfter);
+  }
+
+  if (!(await mfa.verify(record.id, String(code ?? '')))) {
+    await throttle.recordFailure(record.email);
+    return invalid();
+  }
+
+  await throttle.recordSuccess(record.email);
+  return issueTokens(record, env, 200, [...amr, 'otp']);
+}
+
+/**
+ * Issue an access/refresh token pair for a verified user, optionally
+ * scoped to one of their organizations
+ */
+async function issueTokens(
+  record: { id: string; email: string; role: JWTPayload['role'] },
+  env: Env,
+  status: number,
+  amr: AuthMethod[] = ['pwd'],
+  membership?: Membership
+): Promise<Response> {
+  const user = {
+    userId: record.id,
+    email: record.email,
+    role: record.role,
+  };
+
+  const authService = new AuthService(env);
+  const family = await refreshFamilies(env).start(user.userId);
+  const accessToken = await authService.createAccessToken({
+    ...user,
+    ...assurance(amr),
+    ...(membership && { orgId: membership.orgId, orgRole: membership.role }),
+  });
+  const refreshToken = await authService.createRefreshToken(user.userId, family, amr, membership?.orgId);
+
+  return new Response(
+    JSON.stringify({
+      accessToken,
+      refreshToken,
+      user,
+    }),
+    {
+      status,
+      headers: { 'Content-Type': 'application/json' },
+    }
+  );
+}
+
+/**
+ * Logout Handler
+ *
+ * `/auth/logout` revokes the presented access token and, if given, the
+ * refresh token's family; `/auth/logout-all` revokes the presented token
+ * and every token issued to the user before the current second.
+ */
+export async function handleLogout(
+  request: Request,
+  user: JWTPayload,
+  env: Env,
+  revocations: TokenRevocationList = revocationList(env)
+): Promise<Response> {
+  // API keys are revoked through key management, not logout
+  if (user.apiKeyId) {
+    return forbidden();
+  }
+
+  if (new URL(request.url).pathname === '/auth/logout-all') {
+    // The cutoff spares tokens from its own second; the caller's must go regardless
+    await Promise.all([revocations.revokeAllForUser(user.userId), revocations.revokeToken(user)]);
+    return new Response(null, { status: 204 });
+  }
+
+  await revocations.revokeToken(user);
+
+  const { refreshToken } = await request.json<{ refreshToken?: string }>().catch(() => ({ refreshToken: undefined }));
+
+  if (refreshToken) {
+    try {
+      const payload = await new AuthService(env).verifyToken(refreshToken);
+      const { fid } = payload as unknown as { fid?: string };
+
+      if (fid && payload.userId === user.userId) {
+        await refreshFamilies(env).revoke(fid);
+      }
+    } catch (error) {
+      // An invalid refresh token is already unusable
+    }
+  }
+
+  return new Response(null, { status: 204 });
+}
+
+/**
+ * `amr`/`acr` claims for the methods used at login
+ */
+function assurance(amr: AuthMethod[]): Pick<JWTPayload, 'amr' | 'acr'> {
+  return { amr, acr: amr.includes('otp') ? 'aal2' : 'aal1' };
+}
+
+/**
+ * MFA Enrollment Handler
+ *
+ * `POST /api/mfa/enroll` returns a new TOTP secret; `POST /api/mfa/confirm`
+ * with `{ code }` enables MFA and returns the recovery codes (shown once).
+ *
+ * Enrolling needs the user to sign in again, not just an access token (a
+ * stolen one could otherwise enroll the thief's authenticator): `{ password }`,
+ * or for accounts without a password `{ loginCode }` from
+ * `/auth/passwordless/start`.
+ */
+export async function handleMfaEnrollment(
+  request: Request,
+  user: JWTPayload,
+  env: Env,
+  overrides: Partial<AuthDependencies> = {}
+): Promise<Response> {
+  const { mfa, ...deps } = resolveDependencies(env, overrides);
+
+  const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  // Second factors belong to people, not API keys
+  if (user.apiKeyId) {
+    return forbidden();
+  }
+
+  const { pathname } = new URL(request.url);
+
+  if (pathname === '/api/mfa/enroll') {
+    if (await mfa.isEnrolled(user.userId)) {
+      return json({ error: 'MFA is already enabled' }, 409);
+    }
+
+    const body = await request.json<{ password?: string; loginCode?: string }>().catch(() => ({}));
+    const reauthentication = await reauthenticate(request, user, body, deps);
+
+    if (reauthentication) {
+      return reauthentication;
+    }
+
+    return json(await mfa.beginEnrollment(user.userId, user.email));
+  }
+
+  const { code } = await request.json<{ code: string }>();
+  const recoveryCodes = await mfa.confirmEnrollment(user.userId, String(code ?? ''));
+
+  if (!recoveryCodes) {
+    return json({ error: 'Invalid MFA code' }, 400);
+  }
+
+  return json({ recoveryCodes });
+}
+
+/**
+ * Check a fresh password or login code for the signed-in user; returns an
+ * error response, or null if it matches
+ */
+async function reauthenticate(
+  request: Request,
+  user: JWTPayload,
+  { password, loginCode }: { password?: string; loginCode?: string },
+  { credentials, throttle, passwordless }: Pick<AuthDependencies, 'credentials' | 'throttle' | 'passwordless'>
+): Promise<Response | null> {
+  const ip = request.headers.get('CF-Connecting-IP') ?? 'unknown';
+  const decision = await throttle.check(ip, user.email);
+
+  if (!decision.allowed) {
+    return tooManyAttempts(decision.retryAfter);
+  }
+
+  const verified = password
+    ? (await credentials.verifyCredentials(user.email, String(password)))?.id === user.userId
+    : !!loginCode && (await passwordless.verifyCode(user.email, String(loginCode))) !== null;
 
-    const token = await authService.createAccessToken(payload);
-    expect(token).toBeDefined();
+  if (!verified) {
+    await throttle.recordFailure(user.email);
+    return authErrorResponse(new AuthenticationError('Sign in again to change MFA', 'invalid_credentials'));
+  }
+
+  await throttle.recordSuccess(user.email);
+  return null;
+}
+
+/**
+ * Switch Organization Handler
+ *
+ * `POST /auth/switch-org` with `{ orgId, refreshToken }` returns a new
+ * token pair scoped to that organization, keeping the current sign-in's
+ * MFA level. The presented refresh token's family is revoked.
+ */
+export async function handleSwitchOrg(
+  request: Request,
+  user: JWTPayload,
+  env: Env,
+  overrides: Partial<AuthDependencies> = {}
+): Promise<Response> {
+  // API keys are scoped when they are created
+  if (user.apiKeyId) {
+    return forbidden();
+  }
+
+  const { credentials, memberships } = resolveDependencies(env, overrides);
+  const { orgId, refreshToken } = await request
+    .json<{ orgId?: string; refreshToken?: string }>()
+    .catch(() => ({ orgId: undefined, refreshToken: undefined }));
+
+  // The refresh token is required too, so a leaked access token alone can't mint a new pair
+  const families = refreshFamilies(env);
+  const current = refreshToken ? await new AuthService(env).verifyToken(refreshToken).catch(() => null) : null;
+  const { type, fid, jti } = (current ?? {}) as { type?: string; fid?: string; jti?: string };
+
+  if (!current || type !== 'refresh' || !fid || !jti || current.userId !== user.userId) {
+    return authErrorResponse(new AuthenticationError('Invalid refresh token', 'invalid_refresh_token'));
+  }
+
+  const membership = orgId ? await memberships.get(orgId, user.userId) : null;
+  const record = await credentials.getUser(user.userId);
+
+  // Same answer for unknown organizations and ones the user isn't in
+  if (!membership || !record) {
+    return new Response(
+      JSON.stringify({ error: 'Organization not found' }),
+      {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+
+  const rotation = await families.rotate(fid, jti);
+
+  if (rotation.status !== 'rotated') {
+    return authErrorResponse(new AuthenticationError('Invalid refresh token', 'invalid_refresh_token'));
+  }
+
+  await families.revoke(fid);
+
+  return issueTokens(record, env, 200, user.amr ?? ['pwd'], membership);
+}
+
+/**
+ * Impersonation Handlers
+ *
+ * `POST /admin/users/:id/impersonate` with `{ reason }` returns a
+ * short-lived access token for that user; `POST /auth/impersonate/stop`,
+ * called with that token, revokes it. Both are written to the audit log
+ * (see impersonation-example.ts).
+ */
+export async function handleImpersonationStart(
+  request: Request,
+  admin: JWTPayload,
+  env: Env,
+  subjectId: string,
+  overrides: Partial<AuthDependencies> = {}
+): Promise<Response> {
+  const { credentials, impersonations } = resolveDependencies(env, overrides);
+  const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  const { reason } = await request.json<{ reason?: string }>().catch(() => ({ reason: undefined }));
+
+  if (!reason?.trim()) {
+    return json({ error: 'A reason is required' }, 400);
+  }
+
+  const subject = subjectId === admin.userId ? null : await credentials.getUser(subjectId);
 
-    const verified = await authService.verifyToken(token);
-    expect(verified.userId).toBe('123');
-    expect(verified.email).toBe('test@example.com');
-    expect(verified.role).toBe('user');
+  if (!subject) {
+    return json({ error: 'User not found' }, 404);
+  }
+
+  // Acting as another admin would borrow their rights without their second factor
+  if (subject.role === 'admin') {
+    return authErrorResponse(new AuthorizationError('Admins cannot be impersonated', 'impersonation_not_allowed'));
+  }
+
+  // Audit first: no impersonation token exists without its entry
+  const jti = crypto.randomUUID();
+  await impersonations.append({
+    action: 'start',
+    actorId: admin.userId,
+    subjectId: subject.id,
+    tokenId: jti,
+    reason: reason.trim(),
   });
 
-  it('should throw on invalid token', async () => {
-    await expect(authService.verifyToken('invalid-token')).rejects.toThrow('Invalid or expired token');
+  const accessToken = await new AuthService(env).createImpersonationToken(
+    { userId: subject.id, email: subject.email, role: subject.role },
+    admin,
+    jti
+  );
+
+  return json({ accessToken, expiresIn: IMPERSONATION_TTL_SECONDS });
+}
+
+export async function handleImpersonationStop(
+  user: JWTPayload,
+  env: Env,
+  overrides: Partial<AuthDependencies> = {}
+): Promise<Response> {
+  if (!isImpersonating(user)) {
+    return new Response(
+      JSON.stringify({ error: 'Not impersonating' }),
+      {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+
+  // Every impersonation token is signed with a jti; without one it can't be revoked or audited
+  if (!user.jti) {
+    return authErrorResponse(new TokenError('Invalid token', 'token_invalid'));
+  }
+
+  const { revocations, impersonations } = resolveDependencies(env, overrides);
+
+  await revocations.revokeToken(user);
+  await impersonations.append({
+    action: 'stop',
+    actorId: user.act.sub,
+    subjectId: user.userId,
+    tokenId: user.jti,
+    reason: null,
   });
 
-  it('should extract token from Authorization header', () => {
-    const request = new Request('https://example.com', {
-      headers: {
-        'Authorization': 'Bearer abc123',
+  return new Response(null, { status: 204 });
+}
+
+/**
+ * Protected Route Handler
+ */
+async function handleProtectedRoute(
+  request: Request,
+  user: JWTPayload,
+  env: Env
+): Promise<Response> {
+  // User is authenticated, handle request
+  return new Response(
+    JSON.stringify({
+      message: 'Protected resource',
+      user: {
+        userId: user.userId,
+        email: user.email,
+        role: user.role,
+      },
+    }),
+    {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    }
+  );
+}
+
+/**
+ * Admin Route Handler
+ */
+async function handleAdminRoute(
+  request: Request,
+  user: JWTPayload,
+  env: Env
+): Promise<Response> {
+  // Admin-only resource
+  return new Response(
+    JSON.stringify({
+      message: 'Admin resource',
+      user: {
+        userId: user.userId,
+        email: user.email,
+        role: user.role,
       },
+    }),
+    {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    }
+  );
+}
+
+/**
+ * Refresh Token Handler
+ *
+ * Each refresh token works once: it is exchanged for a new access token and
+ * the next refresh token in its family. Reusing a consumed token revokes the
+ * family (see refresh-tokens-example.ts).
+ */
+export async function refreshAccessToken(
+  refreshToken: string,
+  env: Env,
+  credentials: CredentialService = new CredentialService(new D1CredentialStore(env.DB)),
+  revocations: TokenRevocationList = revocationList(env),
+  memberships: MembershipStore = new D1MembershipStore(env.DB)
+): Promise<{ accessToken: string; refreshToken: string } | Response> {
+  const authService = new AuthService(env);
+
+  try {
+    const payload = await authService.verifyToken(refreshToken);
+    const { type, fid, jti } = payload as unknown as { type?: string; fid?: string; jti?: string };
+    const amr: AuthMethod[] = payload.amr ?? ['pwd'];
+
+    // Verify it's a refresh token
+    if (type !== 'refresh' || !fid || !jti) {
+      throw new Error('Invalid refresh token');
+    }
+
+    // "Log out everywhere" and role changes cut off refresh tokens too
+    if (await revocations.isRevoked(payload)) {
+      throw new Error('Invalid refresh token');
+    }
+
+    const rotation = await refreshFamilies(env).rotate(fid, jti);
+
+    if (rotation.status !== 'rotated' || rotation.userId !== payload.userId) {
+      throw new Error('Invalid refresh token');
+    }
+
+    // Rebuild claims from the user record; refresh tokens carry only the user ID
+    const user = await credentials.getUser(rotation.userId);
+
+    if (!user) {
+      throw new Error('Invalid refresh token');
+    }
+
+    // Members removed from the organization can't refresh into it
+    const membership = payload.orgId ? await memberships.get(payload.orgId, user.id) : null;
+
+    if (payload.orgId && !membership) {
+      throw new Error('Invalid refresh token');
+    }
+
+    const newAccessToken = await authService.createAccessToken({
+      userId: user.id,
+      email: user.email,
+      role: user.role,
+      ...assurance(amr),
+      ...(membership && { orgId: membership.orgId, orgRole: membership.role }),
+    });
+    const newRefreshToken = await authService.createRefreshToken(
+      user.id,
+      { familyId: fid, jti: rotation.jti },
+      amr,
+      membership?.orgId
+    );
+
+    return { accessToken: newAccessToken, refreshToken: newRefreshToken };
+  } catch (error) {
+    return authErrorResponse(new AuthenticationError('Invalid refresh token', 'invalid_refresh_token'));
+  }
+}
+
+/**
+ * Testing
+ */
+if (import.meta.vitest) {
+  const { describe, it, expect, beforeEach, afterEach, vi } = import.meta.vitest;
+  const { decodeProtectedHeader, exportPKCS8, generateKeyPair } = await import('jose');
+  const { createMockKV } = await import('../../testing/backend/mocks/cloudflare-bindings');
+  const { listRoutes } = await import('./router-example');
+  const { InMemoryApiKeyStore } = await import('./api-keys-example');
+  const { InMemoryMfaStore, totp } = await import('./mfa-example');
+  const { InMemoryMailSender } = await import('./passwordless-example');
+  const { createFakeProvider, InMemoryIdentityStore } = await import('./oidc-example');
+  const { InMemoryImpersonationAuditLog } = await import('./impersonation-example');
+  const { InMemoryMembershipStore } = await import('./organizations-example');
+
+  // openssl rand -base64 32
+  const TEST_JWT_SECRET = 'zHzsEHIktyiICWKtg1x4rk5dzyPOWY+EvPhT4/wsWT8=';
+  const TEST_BLIND_INDEX_KEY = 'Xw2R0f7nTVuYYZsNB+vUwJqD2fMHVZJ4EfuMfp3HH/M=';
+
+  describe('AuthService', () => {
+    let mockEnv: Env;
+    let authService: AuthService;
+
+    beforeEach(() => {
+      mockEnv = {
+        JWT_SECRET: TEST_JWT_SECRET,
+        DB: {} as D1Database,
+        REFRESH_TOKENS: createMockKV() as unknown as KVNamespace,
+        REVOKED_TOKENS: createMockKV() as unknown as KVNamespace,
+        RATE_LIMITS: createMockKV() as unknown as KVNamespace,
+        BLIND_INDEX_KEY: TEST_BLIND_INDEX_KEY,
+        PASSWORDLESS: createMockKV() as unknown as KVNamespace,
+        SENDGRID_API_KEY: 'SG.test',
+        MAIL_FROM: 'login@example.com',
+        APP_URL: 'https://app.example.com',
+        OIDC_STATE: createMockKV() as unknown as KVNamespace,
+        KV: createMockKV() as unknown as KVNamespace,
+      };
+      authService = new AuthService(mockEnv);
+    });
+
+    it('should create and verify access token', async () => {
+      const payload: Omit<JWTPayload, 'exp' | 'iat'> = {
+        userId: '123',
+        email: 'test@example.com',
+        role: 'user',
+      };
+
+      const token = await authService.createAccessToken(payload);
+      expect(token).toBeDefined();
+
+      const verified = await authService.verifyToken(token);
+      expect(verified.userId).toBe('123');
+      expect(verified.email).toBe('test@example.com');
+      expect(verified.role).toBe('user');
+    });
+
+    it('should sign with an ES256 key and verify by kid', async () => {
+      const { privateKey } = await generateKeyPair('ES256', { extractable: true });
+      const asymmetricService = new AuthService({
+        ...mockEnv,
+        JWT_PRIVATE_KEY: await exportPKCS8(privateKey),
+        JWT_KEY_ID: 'key-2024-01',
+      });
+
+      const token = await asymmetricService.createAccessToken({
+        userId: '123',
+        email: 'test@example.com',
+        role: 'user',
+      });
+
+      expect(decodeProtectedHeader(token)).toMatchObject({ alg: 'ES256', kid: 'key-2024-01' });
+      expect((await asymmetricService.verifyToken(token)).userId).toBe('123');
+    });
+
+    it('should throw on invalid token', async () => {
+      await expect(authService.verifyToken('invalid-token')).rejects.toMatchObject({ code: 'token_malformed' });
+    });
+
+    it('should reject tokens minted for another environment', async () => {
+      const staging = new AuthService({ ...mockEnv, ENVIRONMENT: 'staging' });
+      const production = new AuthService({ ...mockEnv, ENVIRONMENT: 'production' });
+      const token = await staging.createAccessToken({ userId: '123', email: 'test@example.com', role: 'user' });
+
+      await expect(production.verifyToken(token)).rejects.toMatchObject({ code: 'token_wrong_issuer' });
+    });
+
+    it('should reject tokens for another audience', async () => {
+      const other = new AuthService(mockEnv, { ...authService.settings, audience: 'https://partner.example.com' });
+      const token = await other.createAccessToken({ userId: '123', email: 'test@example.com', role: 'user' });
+
+      await expect(authService.verifyToken(token)).rejects.toMatchObject({ code: 'token_wrong_audience' });
+    });
+
+    it('should tell expired and not-yet-valid tokens apart, within the clock tolerance', async () => {
+      const now = Math.floor(Date.now() / 1000);
+      const sign = (times: { exp: number; nbf?: number }) =>
+        new SignJWT({ userId: '123' })
+          .setProtectedHeader({ alg: 'HS256' })
+          .setIssuer(authService.settings.issuer)
+          .setAudience(authService.settings.audience)
+          .setIssuedAt()
+          .setExpirationTime(times.exp)
+          .setNotBefore(times.nbf ?? now)
+          .sign(new TextEncoder().encode(mockEnv.JWT_SECRET));
+
+      await expect(authService.verifyToken(await sign({ exp: now - 60 }))).rejects.toMatchObject({
+        code: 'token_expired',
+        message: 'Token expired',
+      });
+      await expect(authService.verifyToken(await sign({ exp: now + 600, nbf: now + 300 }))).rejects.toMatchObject({
+        code: 'token_not_yet_valid',
+      });
+
+      // A few seconds of skew between servers is tolerated
+      expect((await authService.verifyToken(await sign({ exp: now - 5 }))).userId).toBe('123');
+    });
+
+    it('should use the configured access token lifetime', async () => {
+      const shortLived = new AuthService(mockEnv, { ...authService.settings, accessTokenTtlSeconds: 60 });
+      const token = await shortLived.createAccessToken({ userId: '123', email: 'test@example.com', role: 'user' });
+      const { iat, exp } = await shortLived.verifyToken(token);
+
+      expect(exp! - iat!).toBe(60);
     });
 
-    const token = authService.extractToken(request);
-    expect(token).toBe('abc123');
+    it('should extract token from Authorization header', () => {
+      const request = new Request('https://example.com', {
+        headers: {
+          'Authorization': 'Bearer abc123',
+        },
+      });
+
+      const token = authService.extractToken(request);
+      expect(token).toBe('abc123');
+    });
+
+    it('should return null if Authorization header is missing', () => {
+      const request = new Request('https://example.com');
+      const token = authService.extractToken(request);
+      expect(token).toBeNull();
+    });
   });
 
-  it('should return null if Authorization header is missing', () => {
-    const request = new Request('https://example.com');
-    const token = authService.extractToken(request);
-    expect(token).toBeNull();
+  describe('requireRole', () => {
+    it('should allow admin role', () => {
+      const user: JWTPayload = {
+        userId: '123',
+        email: 'admin@example.com',
+        role: 'admin',
+      };
+
+      const result = requireRole('admin')(user);
+      expect(result).toBeNull(); // No error = allowed
+    });
+
+    it('should deny user role for admin-only route', () => {
+      const user: JWTPayload = {
+        userId: '123',
+        email: 'user@example.com',
+        role: 'user',
+      };
+
+      const result = requireRole('admin')(user);
+      expect(result).toBeInstanceOf(Response);
+      expect(result?.status).toBe(403);
+    });
+
+    it('should allow multiple roles', () => {
+      const user: JWTPayload = {
+        userId: '123',
+        email: 'user@example.com',
+        role: 'user',
+      };
+
+      const result = requireRole('admin', 'user')(user);
+      expect(result).toBeNull(); // Allowed
+    });
   });
-});
 
-describe('requireRole', () => {
-  it('should allow admin role', () => {
-    const user: JWTPayload = {
-      userId: '123',
-      email: 'admin@example.com',
-      role: 'admin',
+  describe('handlePublicRoute', () => {
+    let env: Env;
+    let credentials: CredentialService;
+    let mfa: MfaService;
+    let mail: InstanceType<typeof InMemoryMailSender>;
+    let deps: Partial<AuthDependencies>;
+
+    const post = (path: string, body: unknown) =>
+      new Request(`https://example.com${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+
+    beforeEach(() => {
+      env = {
+        JWT_SECRET: TEST_JWT_SECRET,
+        DB: {} as D1Database,
+        REFRESH_TOKENS: createMockKV() as unknown as KVNamespace,
+        REVOKED_TOKENS: createMockKV() as unknown as KVNamespace,
+        RATE_LIMITS: createMockKV() as unknown as KVNamespace,
+        BLIND_INDEX_KEY: TEST_BLIND_INDEX_KEY,
+        PASSWORDLESS: createMockKV() as unknown as KVNamespace,
+        SENDGRID_API_KEY: 'SG.test',
+        MAIL_FROM: 'login@example.com',
+        APP_URL: 'https://app.example.com',
+        OIDC_STATE: createMockKV() as unknown as KVNamespace,
+        KV: createMockKV() as unknown as KVNamespace,
+      };
+      credentials = new CredentialService(new InMemoryCredentialStore(), new PasswordHasher(1_000));
+      mfa = new MfaService(new InMemoryMfaStore());
+      mail = new InMemoryMailSender();
+      deps = {
+        credentials,
+        mfa,
+        passwordless: new PasswordlessLogin(env.PASSWORDLESS, new AuthService(env), mail, env.APP_URL),
+      };
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should register a user and log in with the same password', async () => {
+      const registered = await handlePublicRoute(
+        post('/auth/register', { email: 'test@example.com', password: 'a-long-password' }),
+        env,
+        deps
+      );
+      expect(registered.status).toBe(201);
+
+      const login = await handlePublicRoute(
+        post('/auth/login', { email: 'test@example.com', password: 'a-long-password' }),
+        env,
+        deps
+      );
+      expect(login.status).toBe(200);
+
+      const body = await login.json<{ accessToken: string; user: JWTPayload }>();
+      expect(body.user.email).toBe('test@example.com');
+      expect(body.accessToken).toBeDefined();
+    });
+
+    it('should return 401 for a wrong password', async () => {
+      await credentials.register('test@example.com', 'a-long-password');
+
+      const response = await handlePublicRoute(
+        post('/auth/login', { email: 'test@example.com', password: 'wrong-password' }),
+        env,
+        deps
+      );
+      expect(response.status).toBe(401);
+    });
+
+    it('should return 429 with Retry-After once the account is locked', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      await credentials.register('test@example.com', 'a-long-password');
+
+      const attempt = () =>
+        handlePublicRoute(
+          post('/auth/login', { email: 'test@example.com', password: 'wrong-password' }),
+          env,
+          deps
+        );
+
+      for (let i = 0; i < 5; i++) {
+        expect((await attempt()).status).toBe(401);
+      }
+
+      const locked = await attempt();
+      expect(locked.status).toBe(429);
+      expect(Number(locked.headers.get('Retry-After'))).toBeGreaterThan(0);
+    });
+
+    it('should return 409 when registering an existing email', async () => {
+      await credentials.register('test@example.com', 'a-long-password');
+
+      const response = await handlePublicRoute(
+        post('/auth/register', { email: 'test@example.com', password: 'a-long-password' }),
+        env,
+        deps
+      );
+      expect(response.status).toBe(409);
+    });
+
+    it('should rotate refresh tokens and revoke the family on reuse', async () => {
+      const registered = await handlePublicRoute(
+        post('/auth/register', { email: 'test@example.com', password: 'a-long-password' }),
+        env,
+        deps
+      );
+      const { refreshToken } = await registered.json<{ refreshToken: string }>();
+
+      const refreshed = await handlePublicRoute(post('/auth/refresh', { refreshToken }), env, deps);
+      expect(refreshed.status).toBe(200);
+
+      const body = await refreshed.json<{ accessToken: string; refreshToken: string }>();
+      const claims = await new AuthService(env).verifyToken(body.accessToken);
+      expect(claims.email).toBe('test@example.com');
+      expect(claims.role).toBe('user');
+
+      // Replaying the first token revokes the family, including the newest token
+      const replay = await handlePublicRoute(post('/auth/refresh', { refreshToken }), env, deps);
+      expect(replay.status).toBe(401);
+
+      const afterReuse = await handlePublicRoute(
+        post('/auth/refresh', { refreshToken: body.refreshToken }),
+        env,
+        deps
+      );
+      expect(afterReuse.status).toBe(401);
+    });
+
+    it('should reject refresh tokens issued before a log-out-everywhere', async () => {
+      const registered = await handlePublicRoute(
+        post('/auth/register', { email: 'test@example.com', password: 'a-long-password' }),
+        env,
+        deps
+      );
+      const { refreshToken, user } = await registered.json<{ refreshToken: string; user: JWTPayload }>();
+
+      // The cutoff spares tokens issued in its own second
+      vi.useFakeTimers();
+      vi.setSystemTime(Date.now() + 1000);
+      await revocationList(env).revokeAllForUser(user.userId);
+
+      const refreshed = await handlePublicRoute(post('/auth/refresh', { refreshToken }), env, deps);
+      expect(refreshed.status).toBe(401);
+    });
+
+    it('should sign in with an emailed code and create the account', async () => {
+      const started = await handlePublicRoute(post('/auth/passwordless/start', { email: 'new@example.com' }), env, deps);
+      expect(started.status).toBe(202);
+
+      const code = /code: (\d{6})/.exec(mail.outbox[0].text)![1];
+      const verified = await handlePublicRoute(
+        post('/auth/passwordless/verify', { email: 'new@example.com', code }),
+        env,
+        deps
+      );
+      expect(verified.status).toBe(200);
+
+      const { accessToken, refreshToken } = await verified.json<{ accessToken: string; refreshToken: string }>();
+      const claims = await new AuthService(env).verifyToken(accessToken);
+      expect(claims.email).toBe('new@example.com');
+      expect(claims.amr).toEqual(['email']);
+      expect(refreshToken).toBeDefined();
+
+      // The account is passwordless: no password logs in
+      const login = await handlePublicRoute(
+        post('/auth/login', { email: 'new@example.com', password: '' }),
+        env,
+        deps
+      );
+      expect(login.status).toBe(401);
+    });
+
+    it('should reject a magic link that is not a link token', async () => {
+      const registered = await handlePublicRoute(
+        post('/auth/register', { email: 'test@example.com', password: 'a-long-password' }),
+        env,
+        deps
+      );
+      const { accessToken } = await registered.json<{ accessToken: string }>();
+
+      const response = await handlePublicRoute(post('/auth/passwordless/verify', { token: accessToken }), env, deps);
+      expect(response.status).toBe(401);
+    });
+
+    describe('with an OIDC provider', () => {
+      const signIn = async (claims?: Record<string, unknown>, options: { withCookie?: boolean } = {}) => {
+        const provider = await createFakeProvider(claims);
+        const oidcDeps: Partial<AuthDependencies> = {
+          ...deps,
+          identities: new InMemoryIdentityStore(),
+          oidc: (id) => (id === 'fake' ? new OidcClient(provider.config, env.OIDC_STATE, provider) : null),
+        };
+
+        const startRequest = new Request('https://app.example.com/auth/oidc/fake/start');
+        const start = await handleOidcRoute(startRequest, env, 'fake', oidcDeps);
+        expect(start.status).toBe(302);
+
+        const callback = provider.authorize(start.headers.get('Location')!);
+        const cookie = start.headers.get('Set-Cookie')!.split(';')[0];
+        const headers: HeadersInit = options.withCookie === false ? {} : { Cookie: cookie };
+
+        return handleOidcRoute(new Request(callback, { headers }), env, 'fake', oidcDeps);
+      };
+
+      it('should link to an existing account by verified email', async () => {
+        const existing = await credentials.register('person@example.com', 'a-long-password');
+        const response = await signIn();
+        expect(response.status).toBe(200);
+
+        const { accessToken, user } = await response.json<{ accessToken: string; user: JWTPayload }>();
+        expect(user.userId).toBe(existing.id);
+        expect((await new AuthService(env).verifyToken(accessToken)).amr).toEqual(['oidc']);
+      });
+
+      it('should refuse unverified emails', async () => {
+        const response = await signIn({ email_verified: false });
+
+        expect(response.status).toBe(401);
+        expect(await response.json()).toEqual({
+          error: 'Provider did not return a verified email',
+          code: 'external_login_failed',
+        });
+      });
+
+      it('should bind the login to the browser that started it', async () => {
+        const response = await signIn({}, { withCookie: false });
+
+        expect(response.status).toBe(401);
+        expect(await response.json()).toMatchObject({ error: 'State does not match this browser' });
+        expect(response.headers.get('Set-Cookie')).toContain('__Host-oidc-state=;');
+      });
+
+      it('should return 404 for an unconfigured provider', async () => {
+        const request = new Request('https://app.example.com/auth/oidc/nope/start');
+        const response = await handleOidcRoute(request, env, 'nope', deps);
+
+        expect(response.status).toBe(404);
+      });
+    });
+
+    describe('with MFA enabled', () => {
+      let recoveryCodes: string[];
+
+      beforeEach(async () => {
+        const user = await credentials.register('test@example.com', 'a-long-password');
+        const { secret } = await mfa.beginEnrollment(user.id, user.email);
+        recoveryCodes = (await mfa.confirmEnrollment(user.id, await totp(secret, Date.now())))!;
+      });
+
+      const login = async () => {
+        const response = await handlePublicRoute(
+          post('/auth/login', { email: 'test@example.com', password: 'a-long-password' }),
+          env,
+          deps
+        );
+        return response.json<{ mfaRequired?: boolean; mfaToken: string; accessToken?: string }>();
+      };
+
+      it('should return an mfa_pending token instead of access tokens', async () => {
+        const body = await login();
+
+        expect(body.mfaRequired).toBe(true);
+        expect(body.accessToken).toBeUndefined();
+
+        // The pending token is not an access token
+        const request = new Request('https://example.com/api/me', {
+          headers: { Authorization: `Bearer ${body.mfaToken}` },
+        });
+        expect(await authMiddleware(request, env)).toBeInstanceOf(Response);
+      });
+
+      it('should issue aal2 tokens after a valid recovery code, once', async () => {
+        const { mfaToken } = await login();
+
+        const verified = await handlePublicRoute(post('/auth/mfa/verify', { mfaToken, code: recoveryCodes[0] }), env, deps);
+        expect(verified.status).toBe(200);
+
+        const { accessToken } = await verified.json<{ accessToken: string }>();
+        const claims = await new AuthService(env).verifyToken(accessToken);
+        expect(claims.amr).toEqual(['pwd', 'otp']);
+        expect(claims.acr).toBe('aal2');
+
+        const reused = await handlePublicRoute(post('/auth/mfa/verify', { mfaToken, code: recoveryCodes[0] }), env, deps);
+        expect(reused.status).toBe(401);
+      });
+
+      it('should reject a wrong code', async () => {
+        const { mfaToken } = await login();
+        const response = await handlePublicRoute(post('/auth/mfa/verify', { mfaToken, code: '000000' }), env, deps);
+
+        expect(response.status).toBe(401);
+      });
+    });
+
+    describe('MFA enrollment', () => {
+      const enroll = (user: JWTPayload, body: unknown) =>
+        handleMfaEnrollment(post('/api/mfa/enroll', body), user, env, deps);
+
+      it('should require the current password', async () => {
+        const record = await credentials.register('test@example.com', 'a-long-password');
+        const user: JWTPayload = { userId: record.id, email: record.email, role: 'user' };
+
+        expect((await enroll(user, {})).status).toBe(401);
+        expect((await enroll(user, { password: 'wrong-password' })).status).toBe(401);
+        expect(await mfa.isEnrolled(record.id)).toBe(false);
+
+        const response = await enroll(user, { password: 'a-long-password' });
+        expect(response.status).toBe(200);
+        expect(await response.json()).toHaveProperty('otpauthUri');
+      });
+
+      it('should take a login code for accounts without a password', async () => {
+        await handlePublicRoute(post('/auth/passwordless/start', { email: 'new@example.com' }), env, deps);
+        const record = await credentials.findOrCreateByEmail('new@example.com');
+        const user: JWTPayload = { userId: record.id, email: record.email, role: 'user' };
+        const loginCode = /code: (\d{6})/.exec(mail.outbox[0].text)![1];
+
+        expect((await enroll(user, { password: '' })).status).toBe(401);
+        expect((await enroll(user, { loginCode })).status).toBe(200);
+      });
+    });
+  });
+
+  describe('handleLogout', () => {
+    let env: Env;
+
+    beforeEach(() => {
+      env = {
+        JWT_SECRET: TEST_JWT_SECRET,
+        REFRESH_TOKENS: createMockKV() as unknown as KVNamespace,
+        REVOKED_TOKENS: createMockKV() as unknown as KVNamespace,
+      } as Env;
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    const authenticate = (token: string) =>
+      authMiddleware(new Request('https://example.com/api/me', { headers: { Authorization: `Bearer ${token}` } }), env);
+
+    const logout = async (path: string, token: string) => {
+      const result = (await authenticate(token)) as { user: JWTPayload };
+      return handleLogout(new Request(`https://example.com${path}`, { method: 'POST' }), result.user, env);
     };
 
-    const result = requireRole('admin')(user);
-    expect(result).toBeNull(); // No error = allowed
+    it('should revoke only the presented token', async () => {
+      const authService = new AuthService(env);
+      const user = { userId: crypto.randomUUID(), email: 'test@example.com', role: 'user' as const };
+      const first = await authService.createAccessToken(user);
+      const second = await authService.createAccessToken(user);
+
+      expect((await logout('/auth/logout', first)).status).toBe(204);
+      expect(await authenticate(first)).toBeInstanceOf(Response);
+      expect(await authenticate(second)).not.toBeInstanceOf(Response);
+    });
+
+    it('should revoke the caller\'s own token on log out everywhere, even from the same second', async () => {
+      const token = await new AuthService(env).createAccessToken({
+        userId: crypto.randomUUID(),
+        email: 'test@example.com',
+        role: 'user',
+      });
+
+      expect((await logout('/auth/logout-all', token)).status).toBe(204);
+      expect(await authenticate(token)).toBeInstanceOf(Response);
+    });
+
+    it('should revoke every token for the user', async () => {
+      const authService = new AuthService(env);
+      const user = { userId: crypto.randomUUID(), email: 'test@example.com', role: 'user' as const };
+      const first = await authService.createAccessToken(user);
+      const second = await authService.createAccessToken(user);
+
+      // The cutoff spares tokens issued in its own second
+      vi.useFakeTimers();
+      vi.setSystemTime(Date.now() + 1000);
+
+      expect((await logout('/auth/logout-all', first)).status).toBe(204);
+      expect(await authenticate(first)).toBeInstanceOf(Response);
+      expect(await authenticate(second)).toBeInstanceOf(Response);
+    });
   });
 
-  it('should deny user role for admin-only route', () => {
-    const user: JWTPayload = {
-      userId: '123',
-      email: 'user@example.com',
-      role: 'user',
+  describe('impersonation', () => {
+    let env: Env;
+    let deps: Partial<AuthDependencies>;
+    let audit: InstanceType<typeof InMemoryImpersonationAuditLog>;
+    let store: InMemoryCredentialStore;
+    let admin: JWTPayload;
+    let subject: UserRecord;
+
+    beforeEach(async () => {
+      env = {
+        JWT_SECRET: TEST_JWT_SECRET,
+        REVOKED_TOKENS: createMockKV() as unknown as KVNamespace,
+      } as Env;
+
+      store = new InMemoryCredentialStore();
+      const adminRecord = await store.createUser({ email: 'admin@example.com', role: 'admin', passwordHash: '' });
+
+      admin = { userId: adminRecord.id, email: adminRecord.email, role: 'admin', acr: 'aal2' };
+      subject = await store.createUser({ email: 'user@example.com', role: 'user', passwordHash: '' });
+      audit = new InMemoryImpersonationAuditLog();
+      deps = { credentials: new CredentialService(store), impersonations: audit, revocations: revocationList(env) };
+    });
+
+    const start = (userId: string, body: unknown = { reason: 'Ticket #123' }) =>
+      handleImpersonationStart(
+        new Request(`https://example.com/admin/users/${userId}/impersonate`, { method: 'POST', body: JSON.stringify(body) }),
+        admin,
+        env,
+        userId,
+        deps
+      );
+
+    const authenticate = (token: string, path = '/api/me') =>
+      authMiddleware(new Request(`https://example.com${path}`, { headers: { Authorization: `Bearer ${token}` } }), env);
+
+    it('should expose both identities to handlers', async () => {
+      const { accessToken } = await (await start(subject.id)).json<{ accessToken: string }>();
+      const { user } = (await authenticate(accessToken)) as { user: JWTPayload };
+
+      expect(user.userId).toBe(subject.id);
+      expect(user.act).toEqual({ sub: admin.userId, email: 'admin@example.com' });
+      expect(user.acr).toBeUndefined();
+    });
+
+    it('should block dangerous routes while impersonating', async () => {
+      const { accessToken } = await (await start(subject.id)).json<{ accessToken: string }>();
+      const response = (await authenticate(accessToken, '/auth/logout-all')) as Response;
+
+      expect(response.status).toBe(403);
+      expect(await response.json()).toMatchObject({ code: 'impersonation_not_allowed' });
+    });
+
+    it('should audit start and stop and revoke the token on stop', async () => {
+      const { accessToken } = await (await start(subject.id)).json<{ accessToken: string }>();
+      const { user } = (await authenticate(accessToken)) as { user: JWTPayload };
+
+      expect((await handleImpersonationStop(user, env, deps)).status).toBe(204);
+      expect(await authenticate(accessToken)).toBeInstanceOf(Response);
+
+      const events = await audit.listForSubject(subject.id);
+      expect(events.map((event) => event.action)).toEqual(['start', 'stop']);
+      expect(events[0]).toMatchObject({ actorId: admin.userId, tokenId: user.jti, reason: 'Ticket #123' });
+    });
+
+    it('should refuse to stop an impersonation token without a jti', async () => {
+      const { accessToken } = await (await start(subject.id)).json<{ accessToken: string }>();
+      const { user } = (await authenticate(accessToken)) as { user: JWTPayload };
+
+      expect((await handleImpersonationStop({ ...user, jti: undefined }, env, deps)).status).toBe(401);
+      expect(await audit.listForSubject(subject.id)).toHaveLength(1);
+    });
+
+    it('should require a reason', async () => {
+      expect((await start(subject.id, {})).status).toBe(400);
+      expect(await audit.listForSubject(subject.id)).toEqual([]);
+    });
+
+    it('should refuse to impersonate admins, including yourself', async () => {
+      const other = await store.createUser({ email: 'other-admin@example.com', role: 'admin', passwordHash: '' });
+
+      expect((await start(other.id)).status).toBe(403);
+      expect((await start(admin.userId)).status).toBe(404);
+    });
+  });
+
+  describe('organizations', () => {
+    let env: Env;
+    let deps: Partial<AuthDependencies>;
+    let memberships: InstanceType<typeof InMemoryMembershipStore>;
+    let record: UserRecord;
+    let tokens: { accessToken: string; refreshToken: string };
+
+    beforeEach(async () => {
+      env = {
+        JWT_SECRET: TEST_JWT_SECRET,
+        REFRESH_TOKENS: createMockKV() as unknown as KVNamespace,
+        REVOKED_TOKENS: createMockKV() as unknown as KVNamespace,
+      } as Env;
+
+      const store = new InMemoryCredentialStore();
+      record = await store.createUser({ email: 'user@example.com', role: 'user', passwordHash: '' });
+      memberships = new InMemoryMembershipStore();
+      await memberships.add('org-a', record.id, 'admin');
+      deps = { credentials: new CredentialService(store), memberships, revocations: revocationList(env) };
+
+      const authService = new AuthService(env);
+      const family = await new RefreshTokenFamilies(env.REFRESH_TOKENS).start(record.id);
+      tokens = {
+        accessToken: await authService.createAccessToken({ userId: record.id, email: record.email, role: 'user' }),
+        refreshToken: await authService.createRefreshToken(record.id, family),
+      };
+    });
+
+    const switchOrgRequest = (orgId: string, refreshToken = tokens.refreshToken) =>
+      new Request('https://example.com/auth/switch-org', {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${tokens.accessToken}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ orgId, refreshToken }),
+      });
+
+    const switchOrg = async (orgId: string) => {
+      const request = switchOrgRequest(orgId);
+      const result = await authMiddleware(request, env);
+
+      return result instanceof Response ? result : handleSwitchOrg(request, result.user, env, deps);
     };
 
-    const result = requireRole('admin')(user);
-    expect(result).toBeInstanceOf(Response);
-    expect(result?.status).toBe(403);
+    const authenticate = (token: string, path: string) =>
+      authMiddleware(new Request(`https://example.com${path}`, { headers: { Authorization: `Bearer ${token}` } }), env);
+
+    it('should issue a token pair scoped to the organization', async () => {
+      const response = await switchOrg('org-a');
+      const scoped = await response.json<{ accessToken: string; refreshToken: string }>();
+      const payload = await new AuthService(env).verifyToken(scoped.accessToken);
+
+      const previous = await refreshAccessToken(tokens.refreshToken, env, deps.credentials, deps.revocations, memberships);
+
+      expect(response.status).toBe(200);
+      expect(payload).toMatchObject({ orgId: 'org-a', orgRole: 'admin' });
+      expect(previous).toBeInstanceOf(Response);
+    });
+
+    it('should not reveal organizations the user is not in', async () => {
+      expect((await switchOrg('org-b')).status).toBe(404);
+    });
+
+    it('should reject requests for another organization', async () => {
+      const { accessToken } = await (await switchOrg('org-a')).json<{ accessToken: string }>();
+      const response = (await authenticate(accessToken, '/api/orgs/org-b/projects')) as Response;
+
+      expect(response.status).toBe(403);
+      expect(await response.json()).toMatchObject({ code: 'org_mismatch' });
+      expect(await authenticate(accessToken, '/api/orgs/org-a/projects')).not.toBeInstanceOf(Response);
+    });
+
+    it('should route a switch to another organization past the tenant check', async () => {
+      const response = await routes.handle(switchOrgRequest('org-b', 'not-a-token'), env);
+
+      // Reaches the handler (not a 403 org_mismatch), which checks the refresh token
+      expect(response.status).toBe(401);
+      expect(await response.json()).toMatchObject({ code: 'invalid_refresh_token' });
+    });
+
+    it('should keep the organization on refresh only while the user is a member', async () => {
+      const { refreshToken } = await (await switchOrg('org-a')).json<{ refreshToken: string }>();
+      const refreshed = await refreshAccessToken(refreshToken, env, deps.credentials, deps.revocations, memberships);
+      const { accessToken } = refreshed as { accessToken: string };
+
+      expect(await new AuthService(env).verifyToken(accessToken)).toMatchObject({ orgId: 'org-a' });
+
+      const { refreshToken: next } = refreshed as { refreshToken: string };
+      const removed = new InMemoryMembershipStore();
+      expect(await refreshAccessToken(next, env, deps.credentials, deps.revocations, removed)).toBeInstanceOf(Response);
+    });
+
+    it('should check the organization role', () => {
+      const member: JWTPayload = { userId: '1', email: 'a@example.com', role: 'user', orgId: 'org-a', orgRole: 'member' };
+
+      expect(requireOrgRole('member')(member)).toBeNull();
+      expect(requireOrgRole('admin')(member)?.status).toBe(403);
+    });
   });
 
-  it('should allow multiple roles', () => {
+  describe('requireMfa', () => {
+    const admin: JWTPayload = { userId: '1', email: 'admin@example.com', role: 'admin' };
+
+    it('should require a second factor', async () => {
+      const response = requireMfa()({ ...admin, amr: ['pwd'], acr: 'aal1' });
+
+      expect(response?.status).toBe(403);
+      expect(await response?.json()).toEqual({ error: 'MFA required', code: 'mfa_required' });
+      expect(requireMfa()({ ...admin, amr: ['pwd', 'otp'], acr: 'aal2' })).toBeNull();
+    });
+  });
+
+  describe('requirePermission', () => {
     const user: JWTPayload = {
       userId: '123',
       email: 'user@example.com',
       role: 'user',
     };
 
-    const result = requireRole('admin', 'user')(user);
-    expect(result).toBeNull(); // Allowed
+    it('should allow a permission granted through inheritance', () => {
+      expect(requirePermission('content:read')(user)).toBeNull();
+    });
+
+    it('should return the same 403 shape as requireRole', async () => {
+      const byPermission = requirePermission('billing:write')(user);
+      const byRole = requireRole('admin')(user);
+
+      expect(byPermission?.status).toBe(403);
+      expect(await byPermission?.json()).toEqual(await byRole?.json());
+    });
+
+    it('should name the missing permission in the challenge', () => {
+      const response = requirePermission('billing:write')(user);
+
+      expect(response?.headers.get('WWW-Authenticate')).toContain('scope="billing:write"');
+    });
+
+    it('should check ownership for scoped permissions', () => {
+      expect(requirePermission('posts:write', { ownerId: '123' })(user)).toBeNull();
+      expect(requirePermission('posts:write', { ownerId: '456' })(user)?.status).toBe(403);
+    });
+
+    it('should deny guests user-level permissions', () => {
+      const guest: JWTPayload = { ...user, role: 'guest' };
+
+      expect(requirePermission('profile:read', { ownerId: '123' })(guest)?.status).toBe(403);
+    });
   });
-});
+
+  describe('routes', () => {
+    it('should declare a policy for every route', () => {
+      expect(listRoutes(routes)).toEqual([
+        'GET   /.well-known/jwks.json          public',
+        'POST  /auth/login                     public',
+        'POST  /auth/register                  public',
+        'POST  /auth/refresh                   public',
+        'POST  /auth/mfa/verify                public',
+        'POST  /auth/passwordless/start        public',
+        'POST  /auth/passwordless/verify       public',
+        'GET   /auth/oidc/:provider/start      public',
+        'GET   /auth/oidc/:provider/callback   public',
+        'POST  /auth/logout                    authenticated',
+        'POST  /auth/logout-all                authenticated',
+        'POST  /auth/switch-org                authenticated',
+        'POST  /auth/impersonate/stop          authenticated',
+        'POST  /api/mfa/enroll                 authenticated',
+        'POST  /api/mfa/confirm                authenticated',
+        '*     /api/*                          authenticated',
+        'POST  /admin/users/:id/revoke-tokens  roles(admin) +mfa',
+        'POST  /admin/users/:id/impersonate    roles(admin) +mfa',
+        'GET   /admin/flags                    roles(admin) +mfa',
+        'PUT   /admin/flags/:key               roles(admin) +mfa',
+        '*     /admin/*                        roles(admin) +mfa',
+      ]);
+    });
+
+    it('should deny paths that are not in the table', async () => {
+      const env = { JWT_SECRET: TEST_JWT_SECRET } as Env;
+      const response = await routes.handle(new Request('https://example.com/debug'), env);
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should require MFA on admin routes', async () => {
+      const env = {
+        JWT_SECRET: TEST_JWT_SECRET,
+        REVOKED_TOKENS: createMockKV() as unknown as KVNamespace,
+      } as Env;
+      const authService = new AuthService(env);
+      const admin = { userId: '1', email: 'admin@example.com', role: 'admin' as const };
+
+      const call = async (claims: Omit<JWTPayload, 'exp' | 'iat'>) => {
+        const token = await authService.createAccessToken(claims);
+        const request = new Request('https://example.com/admin/users', {
+          headers: { Authorization: `Bearer ${token}` },
+        });
+        return routes.handle(request, env);
+      };
+
+      expect((await call({ ...admin, amr: ['pwd'], acr: 'aal1' })).status).toBe(403);
+      expect((await call({ ...admin, amr: ['pwd', 'otp'], acr: 'aal2' })).status).toBe(200);
+    });
+  });
+
+  describe('authMiddleware errors', () => {
+    const env = {
+      JWT_SECRET: TEST_JWT_SECRET,
+      REVOKED_TOKENS: createMockKV() as unknown as KVNamespace,
+    } as Env;
+
+    const authenticate = async (headers: HeadersInit = {}) =>
+      (await authMiddleware(new Request('https://example.com/api/me', { headers }), env)) as Response;
+
+    it('should send a bare challenge when no token is presented', async () => {
+      const response = await authenticate();
+
+      expect(response.status).toBe(401);
+      expect(response.headers.get('WWW-Authenticate')).toBe('Bearer realm="api"');
+      expect(await response.json()).toEqual({ error: 'Missing authentication token', code: 'token_missing' });
+    });
+
+    it('should tell clients an access token has expired', async () => {
+      const now = Math.floor(Date.now() / 1000);
+      const settings = new AuthService(env).settings;
+      const token = await new SignJWT({ userId: '123', email: 'test@example.com', role: 'user' })
+        .setProtectedHeader({ alg: 'HS256' })
+        .setIssuer(settings.issuer)
+        .setAudience(settings.audience)
+        .setIssuedAt(now - 3600)
+        .setExpirationTime(now - 600)
+        .sign(new TextEncoder().encode(env.JWT_SECRET));
+
+      const response = await authenticate({ Authorization: `Bearer ${token}` });
+
+      expect(response.status).toBe(401);
+      expect(response.headers.get('WWW-Authenticate')).toContain('error="invalid_token"');
+      expect(await response.json()).toMatchObject({ code: 'token_expired' });
+    });
+
+    it('should not report other failures as expiry', async () => {
+      const pending = await new AuthService(env).createMfaPendingToken('123', ['pwd']);
+
+      expect(await (await authenticate({ Authorization: 'Bearer not-a-jwt' })).json()).toMatchObject({
+        code: 'token_malformed',
+      });
+      expect(await (await authenticate({ Authorization: `Bearer ${pending}` })).json()).toMatchObject({
+        code: 'token_invalid',
+      });
+    });
+  });
+
+  describe('authMiddleware with API keys', () => {
+    const env = {
+      JWT_SECRET: TEST_JWT_SECRET,
+      REVOKED_TOKENS: createMockKV() as unknown as KVNamespace,
+    } as Env;
+    let apiKeys: ApiKeyService;
+    let key: string;
+    const users = new Map<string, UserRecord>();
+    const owners = { getUser: async (id: string) => users.get(id) ?? null };
+
+    beforeEach(async () => {
+      users.set('user-1', {
+        id: 'user-1',
+        email: 'owner@example.com',
+        role: 'user',
+        passwordHash: '',
+        createdAt: new Date().toISOString(),
+      });
+      apiKeys = new ApiKeyService(new InMemoryApiKeyStore());
+      ({ key } = await apiKeys.createKey({
+        ownerId: 'user-1',
+        name: 'Reporting job',
+        role: 'user',
+        scopes: ['content:read'],
+      }));
+    });
+
+    it('should resolve an X-API-Key header to a principal', async () => {
+      const request = new Request('https://example.com/api/reports', { headers: { 'X-API-Key': key } });
+
+      const result = await authMiddleware(request, env, apiKeys, undefined, owners);
+      expect(result).not.toBeInstanceOf(Response);
+
+      const { user } = result as { user: JWTPayload };
+      expect(user.userId).toBe('user-1');
+      expect(requireRole('user')(user)).toBeNull();
+    });
+
+    it('should accept Bearer sk_ keys', async () => {
+      const request = new Request('https://example.com/api/reports', { headers: { Authorization: `Bearer ${key}` } });
+
+      expect(await authMiddleware(request, env, apiKeys, undefined, owners)).not.toBeInstanceOf(Response);
+    });
+
+    it('should limit the principal to the key scopes', async () => {
+      const request = new Request('https://example.com/api/reports', { headers: { 'X-API-Key': key } });
+      const { user } = (await authMiddleware(request, env, apiKeys, undefined, owners)) as { user: JWTPayload };
+
+      expect(requirePermission('content:read')(user)).toBeNull();
+      expect(requirePermission('profile:write', { ownerId: 'user-1' })(user)?.status).toBe(403);
+    });
+
+    it('should return 400 for an organization path that does not decode', async () => {
+      const request = new Request('https://example.com/api/orgs/%E0%A4%A/reports', { headers: { 'X-API-Key': key } });
+      const response = (await authMiddleware(request, env, apiKeys, undefined, owners)) as Response;
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toMatchObject({ code: 'malformed_request' });
+    });
+
+    it('should return 401 for an unknown key', async () => {
+      const request = new Request('https://example.com/api/reports', { headers: { 'X-API-Key': 'sk_nope_nope' } });
+
+      expect(((await authMiddleware(request, env, apiKeys, undefined, owners)) as Response).status).toBe(401);
+    });
+
+    it("should cap the key's role at the owner's current role", async () => {
+      const { key: adminKey } = await apiKeys.createKey({ ownerId: 'user-1', name: 'Admin job', role: 'admin', scopes: [] });
+      const request = new Request('https://example.com/api/reports', { headers: { 'X-API-Key': adminKey } });
+      const { user } = (await authMiddleware(request, env, apiKeys, undefined, owners)) as { user: JWTPayload };
+
+      expect(user.role).toBe('user');
+      expect(requireRole('admin')(user)?.status).toBe(403);
+    });
+
+    it('should return 401 once the owner is deleted', async () => {
+      users.delete('user-1');
+      const request = new Request('https://example.com/api/reports', { headers: { 'X-API-Key': key } });
+
+      expect(((await authMiddleware(request, env, apiKeys, undefined, owners)) as Response).status).toBe(401);
+    });
+  });
+}
@@ -3,9 +3,34 @@
  * 
  * This example demonstrates type-safe access to environment bindings
  * and configuration values in Cloudflare Workers.
+ *
+ * `ENV_SCHEMA` describes the whole `Env`; `assertValidEnv` checks it once
+ * per isolate and reports every problem together.
+ *
+ * Settings (CORS origins, cache TTLs, upload limits, feature toggles, token
+ * lifetimes) are layered: `DEFAULT_SETTINGS`, then the `ENVIRONMENT` overlay
+ * in `ENVIRONMENT_SETTINGS`, then `[vars]`. Read them with
+ * `config.get('cors.allowedOrigins')`.
  */
 
-export interface Env {
+import {
+  checkSecret,
+  encryptingKeyRule,
+  readEncryptionKeyRing,
+  readJwtKeyRing,
+  SECRET_RULES,
+  SecretManager,
+  signingKeyRule,
+  type JwtKeyRingEntry,
+  type SecretRule,
+  type VersionedEncryptionKeys,
+  type VersionedJwtSecrets,
+} from './secrets-example';
+
+export const ENVIRONMENTS = ['development', 'staging', 'production'] as const;
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error'] as const;
+
+export interface Env extends VersionedJwtSecrets, VersionedEncryptionKeys {
   // Database
   DB: D1Database;
   
@@ -24,24 +49,398 @@ export interface Env {
   ENCRYPTION_KEY: string;
   
   // Environment variables
-  ENVIRONMENT: 'development' | 'staging' | 'production';
-  LOG_LEVEL: 'debug' | 'info' | 'warn' | 'error';
+  ENVIRONMENT: (typeof ENVIRONMENTS)[number];
+  LOG_LEVEL: (typeof LOG_LEVELS)[number];
   
-  // Optional vars with defaults
+  // Optional vars overriding the per-environment settings below
   CACHE_TTL?: string;
   MAX_UPLOAD_SIZE?: string;
+  CORS_ALLOWED_ORIGINS?: string; // comma-separated
+
+  // Token settings (override the per-environment defaults below)
+  JWT_ISSUER?: string;
+  JWT_AUDIENCE?: string;
+  ACCESS_TOKEN_TTL?: string; // seconds
+  REFRESH_TOKEN_TTL?: string; // seconds
+  JWT_CLOCK_TOLERANCE?: string; // seconds
+}
+
+export interface TokenSettings {
+  issuer: string;
+  audience: string;
+  accessTokenTtlSeconds: number;
+  refreshTokenTtlSeconds: number;
+  clockToleranceSeconds: number;
+}
+
+export interface AppSettings {
+  cors: {
+    allowedOrigins: string[];
+  };
+  cache: {
+    ttlSeconds: number;
+  };
+  uploads: {
+    maxSizeBytes: number;
+  };
+  features: {
+    passwordlessLogin: boolean;
+    socialLogin: boolean;
+    debugRoutes: boolean;
+  };
+  tokens: TokenSettings;
+}
+
+type DeepPartial<T> = {
+  [K in keyof T]?: T[K] extends readonly unknown[] ? T[K] : T[K] extends object ? DeepPartial<T[K]> : T[K];
+};
+
+type JoinPath<Prefix extends string, Key extends string> = Prefix extends '' ? Key : `${Prefix}.${Key}`;
+
+/**
+ * Dot paths into `AppSettings`, e.g. `'cors'` or `'cors.allowedOrigins'`
+ */
+export type SettingPath<T = AppSettings, Prefix extends string = ''> = {
+  [K in keyof T & string]: T[K] extends readonly unknown[] | string | number | boolean
+    ? JoinPath<Prefix, K>
+    : JoinPath<Prefix, K> | SettingPath<T[K], JoinPath<Prefix, K>>;
+}[keyof T & string];
+
+/**
+ * Dot paths to individual values (no sections)
+ */
+export type LeafSettingPath<T = AppSettings, Prefix extends string = ''> = {
+  [K in keyof T & string]: T[K] extends readonly unknown[] | string | number | boolean
+    ? JoinPath<Prefix, K>
+    : LeafSettingPath<T[K], JoinPath<Prefix, K>>;
+}[keyof T & string];
+
+export type SettingValue<P extends string, T = AppSettings> = P extends `${infer K}.${infer Rest}`
+  ? K extends keyof T
+    ? SettingValue<Rest, T[K]>
+    : never
+  : P extends keyof T
+    ? T[P]
+    : never;
+
+/**
+ * Layer 1: defaults shared by every environment
+ */
+export const DEFAULT_SETTINGS: DeepPartial<AppSettings> = {
+  cache: { ttlSeconds: 3600 },
+  uploads: { maxSizeBytes: 10 * 1024 * 1024 },
+  features: { passwordlessLogin: true, socialLogin: true, debugRoutes: false },
+  tokens: {
+    refreshTokenTtlSeconds: 7 * 24 * 60 * 60,
+    clockToleranceSeconds: 30,
+  },
+};
+
+/**
+ * Layer 2: per-environment overlays. Issuer and audience differ per
+ * environment, so a token minted in staging never verifies in production,
+ * even if the signing secrets match.
+ */
+export const ENVIRONMENT_SETTINGS: Record<Env['ENVIRONMENT'], DeepPartial<AppSettings>> = {
+  development: {
+    cors: { allowedOrigins: ['http://localhost:3000'] },
+    features: { debugRoutes: true },
+    tokens: {
+      issuer: 'http://localhost:8787',
+      audience: 'http://localhost:3000',
+      accessTokenTtlSeconds: 24 * 60 * 60,
+    },
+  },
+  staging: {
+    cors: { allowedOrigins: ['https://app.staging.example.com'] },
+    tokens: {
+      issuer: 'https://api.staging.example.com',
+      audience: 'https://app.staging.example.com',
+      accessTokenTtlSeconds: 60 * 60,
+    },
+  },
+  production: {
+    cors: { allowedOrigins: ['https://example.com', 'https://www.example.com', 'https://app.example.com'] },
+    uploads: { maxSizeBytes: 25 * 1024 * 1024 },
+    tokens: {
+      issuer: 'https://api.example.com',
+      audience: 'https://app.example.com',
+      accessTokenTtlSeconds: 15 * 60,
+    },
+  },
+};
+
+/**
+ * Layer 3: `[vars]` (and `.dev.vars`) overrides. Values are checked by
+ * `validateEnv`.
+ */
+function settingsFromVars(env: Partial<Env>): DeepPartial<AppSettings> {
+  const integer = (value: string | undefined) => (value ? parseInt(value, 10) : undefined);
+
+  return {
+    cors: {
+      allowedOrigins: env.CORS_ALLOWED_ORIGINS?.split(',').map((origin) => origin.trim()).filter(Boolean),
+    },
+    cache: { ttlSeconds: integer(env.CACHE_TTL) },
+    uploads: { maxSizeBytes: integer(env.MAX_UPLOAD_SIZE) },
+    tokens: {
+      issuer: env.JWT_ISSUER || undefined,
+      audience: env.JWT_AUDIENCE || undefined,
+      accessTokenTtlSeconds: integer(env.ACCESS_TOKEN_TTL),
+      refreshTokenTtlSeconds: integer(env.REFRESH_TOKEN_TTL),
+      clockToleranceSeconds: integer(env.JWT_CLOCK_TOLERANCE),
+    },
+  };
+}
+
+/**
+ * Merge layers left to right. Later layers win; `undefined` never
+ * overrides, and arrays are replaced rather than concatenated.
+ */
+function mergeSettings<T extends object>(...layers: Array<DeepPartial<T>>): DeepPartial<T> {
+  const merged: Record<string, unknown> = {};
+
+  for (const layer of layers) {
+    for (const [key, value] of Object.entries(layer)) {
+      if (value === undefined) {
+        continue;
+      }
+
+      const current = merged[key];
+      merged[key] = isSection(value) && isSection(current) ? mergeSettings(current, value) : value;
+    }
+  }
+
+  return merged as DeepPartial<T>;
+}
+
+function isSection(node: unknown): node is object {
+  return typeof node === 'object' && node !== null && !Array.isArray(node);
+}
+
+/**
+ * Settings for an environment: defaults, then its overlay, then `[vars]`
+ */
+export function resolveSettings(environment: Env['ENVIRONMENT'], env: Partial<Env> = {}): DeepPartial<AppSettings> {
+  return mergeSettings<AppSettings>(DEFAULT_SETTINGS, ENVIRONMENT_SETTINGS[environment], settingsFromVars(env));
+}
+
+/**
+ * Every value a resolved environment must define; a compile error if a
+ * path is added to `AppSettings` but not here
+ */
+export const REQUIRED_SETTINGS: Record<LeafSettingPath, true> = {
+  'cors.allowedOrigins': true,
+  'cache.ttlSeconds': true,
+  'uploads.maxSizeBytes': true,
+  'features.passwordlessLogin': true,
+  'features.socialLogin': true,
+  'features.debugRoutes': true,
+  'tokens.issuer': true,
+  'tokens.audience': true,
+  'tokens.accessTokenTtlSeconds': true,
+  'tokens.refreshTokenTtlSeconds': true,
+  'tokens.clockToleranceSeconds': true,
+};
+
+/**
+ * Required settings an environment's defaults and overlay leave undefined
+ */
+export function missingSettings(environment: Env['ENVIRONMENT']): LeafSettingPath[] {
+  const settings = resolveSettings(environment);
+
+  return (Object.keys(REQUIRED_SETTINGS) as LeafSettingPath[]).filter(
+    (path) => readPath(settings, path) === undefined
+  );
+}
+
+function readPath(settings: DeepPartial<AppSettings>, path: string): unknown {
+  return path
+    .split('.')
+    .reduce<unknown>((node, key) => (node as Record<string, unknown> | undefined)?.[key], settings);
+}
+
+/**
+ * Env Schema
+ *
+ * One rule per `Env` key, checked as a whole by `validateEnv`. Adding a key
+ * to `Env` without a rule here is a compile error.
+ */
+export type EnvRule =
+  | { type: 'binding' }
+  | { type: 'secret'; optional?: boolean }
+  | { type: 'string'; optional?: boolean }
+  | { type: 'enum'; values: readonly string[] }
+  | { type: 'integer'; min: number; optional?: boolean };
+
+type EnvKey = Exclude<keyof Env, `JWT_SECRET_V${number}` | `ENCRYPTION_KEY_V${number}`>;
+
+export const ENV_SCHEMA: { [K in EnvKey]-?: EnvRule } = {
+  DB: { type: 'binding' },
+  KV: { type: 'binding' },
+  BUCKET: { type: 'binding' },
+  QUEUE: { type: 'binding' },
+  JWT_SECRET: { type: 'secret', optional: true }, // JWT_SECRET_V<n> can stand in, checked below
+  API_KEY: { type: 'secret' },
+  ENCRYPTION_KEY: { type: 'secret', optional: true }, // or ENCRYPTION_KEY_V<n>, checked below
+  ENVIRONMENT: { type: 'enum', values: ENVIRONMENTS },
+  LOG_LEVEL: { type: 'enum', values: LOG_LEVELS },
+  CACHE_TTL: { type: 'integer', min: 0, optional: true },
+  MAX_UPLOAD_SIZE: { type: 'integer', min: 1, optional: true },
+  CORS_ALLOWED_ORIGINS: { type: 'string', optional: true },
+  JWT_ISSUER: { type: 'string', optional: true },
+  JWT_AUDIENCE: { type: 'string', optional: true },
+  ACCESS_TOKEN_TTL: { type: 'integer', min: 1, optional: true },
+  REFRESH_TOKEN_TTL: { type: 'integer', min: 1, optional: true },
+  JWT_CLOCK_TOLERANCE: { type: 'integer', min: 0, optional: true },
+};
+
+// Values people paste into .dev.vars or the dashboard and forget to replace
+const PLACEHOLDER_PATTERN =
+  /^(?:<.*>|\$\{.*\}|x{3,}|\*{3,}|change[-_ ]?me|replace[-_ ]?me|todo|tbd|placeholder|secret|password|dummy|example|your[-_ ].*)$/i;
+
+/**
+ * Thrown when the Worker's env doesn't match `ENV_SCHEMA`. Lists every
+ * problem, never a secret's value.
+ */
+export class ConfigError extends Error {
+  constructor(readonly issues: string[]) {
+    super(`Invalid configuration (${issues.length} problem${issues.length === 1 ? '' : 's'}):\n- ${issues.join('\n- ')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+/**
+ * Check a Worker env against `ENV_SCHEMA`, returning every problem found
+ */
+export function validateEnv(env: Partial<Env>): string[] {
+  const values = env as Record<string, unknown>;
+  const issues: string[] = [];
+
+  for (const [name, rule] of Object.entries(ENV_SCHEMA) as Array<[EnvKey, EnvRule]>) {
+    const value = values[name];
+    const missing = value === undefined || value === null || value === '';
+
+    if (rule.type === 'binding') {
+      if (missing) {
+        issues.push(`${name}: missing binding (add it to wrangler.toml)`);
+      }
+      continue;
+    }
+
+    if (missing) {
+      if (rule.type === 'enum') {
+        issues.push(`${name}: missing (expected one of ${rule.values.join(', ')})`);
+      } else if (!rule.optional) {
+        issues.push(rule.type === 'secret' ? `${name}: missing secret (set with: wrangler secret put ${name})` : `${name}: missing`);
+      }
+      continue;
+    }
+
+    if (typeof value !== 'string') {
+      issues.push(`${name}: expected a string`);
+      continue;
+    }
+
+    switch (rule.type) {
+      case 'secret':
+        if (PLACEHOLDER_PATTERN.test(value.trim())) {
+          issues.push(`${name}: looks like a placeholder, not a real secret`);
+        }
+        break;
+      case 'enum':
+        if (!rule.values.includes(value)) {
+          issues.push(`${name}: "${value}" is not one of ${rule.values.join(', ')}`);
+        }
+        break;
+      case 'integer':
+        if (!/^\d+$/.test(value)) {
+          issues.push(`${name}: "${value}" is not a whole number`);
+        } else if (parseInt(value, 10) < rule.min) {
+          issues.push(`${name}: must be at least ${rule.min}`);
+        }
+        break;
+    }
+  }
+
+  // Key rings: JWT_SECRET and/or JWT_SECRET_V<n>, ENCRYPTION_KEY and/or ENCRYPTION_KEY_V<n>
+  for (const name of Object.keys(values).filter((key) => /^(?:JWT_SECRET|ENCRYPTION_KEY)_V\d+$/.test(key))) {
+    const value = values[name];
+
+    if (typeof value === 'string' && PLACEHOLDER_PATTERN.test(value.trim())) {
+      issues.push(`${name}: looks like a placeholder, not a real secret`);
+    }
+  }
+
+  const jwtKeys = readJwtKeyRing(env);
+  const encryptionKeys = readEncryptionKeyRing(env);
+
+  if (jwtKeys.length === 0) {
+    issues.push('JWT_SECRET: missing secret (set with: wrangler secret put JWT_SECRET, or JWT_SECRET_V<n>)');
+  }
+
+  if (encryptionKeys.length === 0) {
+    issues.push('ENCRYPTION_KEY: missing secret (set with: wrangler secret put ENCRYPTION_KEY_V<n>)');
+  }
+
+  // SECRET_RULES, as SecretManager applies them per read; only the current key of each ring
+  const ruled: Array<[string, unknown, SecretRule]> = [['API_KEY', values.API_KEY, SECRET_RULES.API_KEY]];
+
+  if (jwtKeys.length > 0) {
+    const { name, rule } = signingKeyRule(jwtKeys);
+    ruled.push([name, jwtKeys[0].secret, rule]);
+  }
+
+  if (encryptionKeys.length > 0) {
+    const { name, rule } = encryptingKeyRule(encryptionKeys);
+    ruled.push([name, encryptionKeys[0].secret, rule]);
+  }
+
+  for (const [name, value, rule] of ruled) {
+    // Missing and placeholder values are already reported above
+    if (typeof value === 'string' && value !== '' && !PLACEHOLDER_PATTERN.test(value.trim())) {
+      issues.push(...checkSecret(value, rule, env.ENVIRONMENT).map((problem) => `${name}: ${problem}`));
+    }
+  }
+
+  return issues;
+}
+
+// Validation results per env object; Workers reuse the env across requests in an isolate
+const validatedEnvs = new WeakMap<object, string[]>();
+
+/**
+ * Validate the env once per isolate and throw a `ConfigError` listing every
+ * problem. Call at the top of `fetch` (and other handlers) before using
+ * `Config`.
+ */
+export function assertValidEnv(env: Partial<Env>): asserts env is Env {
+  let issues = validatedEnvs.get(env);
+
+  if (!issues) {
+    issues = validateEnv(env);
+    validatedEnvs.set(env, issues);
+  }
+
+  if (issues.length > 0) {
+    throw new ConfigError(issues);
+  }
 }
 
 /**
  * Configuration helper with type-safe defaults
+ *
+ * Accepts any Worker env; each getter checks only the bindings it reads.
  */
 export class Config {
-  constructor(private env: Env) {}
+  private settings?: DeepPartial<AppSettings>;
+
+  constructor(private env: Partial<Env>) {}
 
   /**
    * Get environment name
    */
-  get environment(): string {
+  get environment(): Env['ENVIRONMENT'] {
     return this.env.ENVIRONMENT || 'development';
   }
 
@@ -60,19 +459,41 @@ export class Config {
   }
 
   /**
-   * Get cache TTL in seconds (default: 3600)
+   * Typed access to layered settings: defaults, then the `ENVIRONMENT`
+   * overlay, then `[vars]`
+   *
+   * @example config.get('cors.allowedOrigins') // string[]
+   */
+  get<P extends SettingPath>(path: P): SettingValue<P> {
+    this.settings = this.settings ?? resolveSettings(this.environment, this.env);
+    const value = readPath(this.settings, path);
+
+    if (value === undefined) {
+      throw new Error(`Missing setting ${path} for environment ${this.environment}`);
+    }
+
+    return value as SettingValue<P>;
+  }
+
+  /**
+   * Get cache TTL in seconds
    */
   get cacheTtl(): number {
-    const ttl = this.env.CACHE_TTL || '3600';
-    return parseInt(ttl, 10);
+    return this.get('cache.ttlSeconds');
   }
 
   /**
-   * Get max upload size in bytes (default: 10 MB)
+   * Get max upload size in bytes
    */
   get maxUploadSize(): number {
-    const size = this.env.MAX_UPLOAD_SIZE || '10485760'; // 10 MB
-    return parseInt(size, 10);
+    return this.get('uploads.maxSizeBytes');
+  }
+
+  /**
+   * Get token issuer, audience and lifetimes for this environment
+   */
+  get tokens(): TokenSettings {
+    return this.get('tokens');
   }
 
   /**
@@ -115,6 +536,14 @@ export class Config {
     return this.env.JWT_SECRET;
   }
 
+  /**
+   * Get JWT key ring, newest first (JWT_SECRET_V<n>, then JWT_SECRET). The
+   * signing secret must follow `SECRET_RULES.JWT_SECRET`.
+   */
+  get jwtKeyRing(): JwtKeyRingEntry[] {
+    return new SecretManager(this.env).getJwtKeyRing();
+  }
+
   /**
    * Get API key
    */
@@ -126,7 +555,7 @@ export class Config {
   /**
    * Assert that a binding exists
    */
-  private assertBinding(binding: unknown, name: string): void {
+  private assertBinding(binding: unknown, name: string): asserts binding {
     if (!binding) {
       throw new Error(
         `Missing required binding: ${name}. ` +
@@ -138,7 +567,7 @@ export class Config {
   /**
    * Assert that a secret exists
    */
-  private assertSecret(secret: unknown, name: string): void {
+  private assertSecret(secret: unknown, name: string): asserts secret {
     if (!secret) {
       throw new Error(
         `Missing required secret: ${name}. ` +
@@ -153,19 +582,19 @@ export class Config {
  */
 export default {
   async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
+    // Fail fast with every configuration problem, not just the first one read
+    assertValidEnv(env);
+
     const config = new Config(env);
 
     // Type-safe access to bindings
     const db = config.database;
     const kv = config.kv;
 
-    // Environment-aware behavior
-    if (config.isProduction) {
-      // Enable strict CORS in production
-      const origin = request.headers.get('origin');
-      if (!isAllowedOrigin(origin)) {
-        return new Response('Forbidden', { status: 403 });
-      }
+    // Environment-aware behavior: each environment lists its own origins
+    const origin = request.headers.get('origin');
+    if (origin && !config.get('cors.allowedOrigins').includes(origin)) {
+      return new Response('Forbidden', { status: 403 });
     }
 
     // Use config values
@@ -191,62 +620,198 @@ export default {
   },
 };
 
-function isAllowedOrigin(origin: string | null): boolean {
-  const allowedOrigins = [
-    'https://example.com',
-    'https://www.example.com',
-  ];
-  return origin ? allowedOrigins.includes(origin) : false;
-}
-
 /**
  * Usage Example: Testing
  */
-import { describe, it, expect, beforeEach } from 'vitest';
-
-describe('Config', () => {
-  let mockEnv: Env;
-
-  beforeEach(() => {
-    mockEnv = {
-      DB: {} as D1Database,
-      KV: {} as KVNamespace,
-      BUCKET: {} as R2Bucket,
-      QUEUE: {} as Queue,
-      JWT_SECRET: 'test-secret',
-      API_KEY: 'test-key',
-      ENCRYPTION_KEY: 'test-encryption-key',
-      ENVIRONMENT: 'development',
-      LOG_LEVEL: 'debug',
-    };
-  });
+if (import.meta.vitest) {
+  const { describe, it, expect, beforeEach } = import.meta.vitest;
+
+  describe('Config', () => {
+    let mockEnv: Env;
+
+    beforeEach(() => {
+      mockEnv = {
+        DB: {} as D1Database,
+        KV: {} as KVNamespace,
+        BUCKET: {} as R2Bucket,
+        QUEUE: {} as Queue,
+        JWT_SECRET: 'zHzsEHIktyiICWKtg1x4rk5dzyPOWY+EvPhT4/wsWT8=', // openssl rand -base64 32
+        API_KEY: 'b3Jk5TqXw9ZcLm2VnRp8Yd',
+        ENCRYPTION_KEY: '4f1c9a7e2b6d08c35e9f1a2b7c4d6e80', // openssl rand -hex 16
+        ENVIRONMENT: 'development',
+        LOG_LEVEL: 'debug',
+      };
+    });
 
-  it('should return default cache TTL', () => {
-    const config = new Config(mockEnv);
-    expect(config.cacheTtl).toBe(3600);
-  });
+    it('should return default cache TTL', () => {
+      const config = new Config(mockEnv);
+      expect(config.cacheTtl).toBe(3600);
+    });
 
-  it('should parse custom cache TTL', () => {
-    mockEnv.CACHE_TTL = '7200';
-    const config = new Config(mockEnv);
-    expect(config.cacheTtl).toBe(7200);
-  });
+    it('should parse custom cache TTL', () => {
+      mockEnv.CACHE_TTL = '7200';
+      const config = new Config(mockEnv);
+      expect(config.cacheTtl).toBe(7200);
+    });
 
-  it('should detect production environment', () => {
-    mockEnv.ENVIRONMENT = 'production';
-    const config = new Config(mockEnv);
-    expect(config.isProduction).toBe(true);
-  });
+    it('should detect production environment', () => {
+      mockEnv.ENVIRONMENT = 'production';
+      const config = new Config(mockEnv);
+      expect(config.isProduction).toBe(true);
+    });
 
-  it('should throw if binding is missing', () => {
-    mockEnv.DB = undefined as any;
-    const config = new Config(mockEnv);
-    expect(() => config.database).toThrow('Missing required binding: DB');
-  });
+    it('should throw if binding is missing', () => {
+      mockEnv.DB = undefined as any;
+      const config = new Config(mockEnv);
+      expect(() => config.database).toThrow('Missing required binding: DB');
+    });
+
+    it('should throw if secret is missing', () => {
+      mockEnv.JWT_SECRET = undefined as any;
+      const config = new Config(mockEnv);
+      expect(() => config.jwtSecret).toThrow('Missing required secret: JWT_SECRET');
+    });
+
+    it('should use per-environment token settings', () => {
+      mockEnv.ENVIRONMENT = 'production';
+      const production = new Config(mockEnv).tokens;
+      mockEnv.ENVIRONMENT = 'staging';
+      const staging = new Config(mockEnv).tokens;
+
+      expect(production.issuer).not.toBe(staging.issuer);
+      expect(production.audience).not.toBe(staging.audience);
+    });
+
+    it('should let vars override token settings', () => {
+      mockEnv.JWT_AUDIENCE = 'https://partner.example.com';
+      mockEnv.ACCESS_TOKEN_TTL = '300';
+      const tokens = new Config(mockEnv).tokens;
+
+      expect(tokens.audience).toBe('https://partner.example.com');
+      expect(tokens.accessTokenTtlSeconds).toBe(300);
+      expect(tokens.refreshTokenTtlSeconds).toBe(DEFAULT_SETTINGS.tokens?.refreshTokenTtlSeconds);
+    });
+
+    it.each(ENVIRONMENTS)('should define every setting for %s', (environment) => {
+      expect(missingSettings(environment)).toEqual([]);
+    });
+
+    it('should layer defaults, environment overlay and vars', () => {
+      mockEnv.ENVIRONMENT = 'production';
+      const production = new Config(mockEnv);
+
+      expect(production.get('cors.allowedOrigins')).toContain('https://www.example.com');
+      expect(production.get('uploads.maxSizeBytes')).toBe(25 * 1024 * 1024); // overlay
+      expect(production.get('cache.ttlSeconds')).toBe(3600); // default
+      expect(production.get('features.debugRoutes')).toBe(false);
+
+      mockEnv.CORS_ALLOWED_ORIGINS = 'https://partner.example.com, https://example.com';
+      expect(new Config(mockEnv).get('cors.allowedOrigins')).toEqual([
+        'https://partner.example.com',
+        'https://example.com',
+      ]);
+    });
+
+    it('should return whole sections', () => {
+      expect(new Config(mockEnv).get('features')).toEqual({
+        passwordlessLogin: true,
+        socialLogin: true,
+        debugRoutes: true,
+      });
+    });
+
+    it('should accept a complete env', () => {
+      expect(validateEnv(mockEnv)).toEqual([]);
+      expect(() => assertValidEnv(mockEnv)).not.toThrow();
+    });
+
+    it('should report every problem at once', () => {
+      const env = {
+        ...mockEnv,
+        DB: undefined,
+        CACHE_TTL: 'abc',
+        ENVIRONMENT: 'prod',
+        LOG_LEVEL: undefined,
+      } as unknown as Env;
+
+      expect(validateEnv(env)).toEqual([
+        'DB: missing binding (add it to wrangler.toml)',
+        'ENVIRONMENT: "prod" is not one of development, staging, production',
+        'LOG_LEVEL: missing (expected one of debug, info, warn, error)',
+        'CACHE_TTL: "abc" is not a whole number',
+      ]);
+    });
 
-  it('should throw if secret is missing', () => {
-    mockEnv.JWT_SECRET = undefined as any;
-    const config = new Config(mockEnv);
-    expect(() => config.jwtSecret).toThrow('Missing required secret: JWT_SECRET');
+    it('should flag placeholder secrets without echoing them', () => {
+      mockEnv.API_KEY = 'changeme';
+      mockEnv.JWT_SECRET_V2 = '<your-jwt-secret>';
+
+      const issues = validateEnv(mockEnv);
+
+      expect(issues).toEqual([
+        'API_KEY: looks like a placeholder, not a real secret',
+        'JWT_SECRET_V2: looks like a placeholder, not a real secret',
+      ]);
+      expect(issues.join()).not.toContain('changeme');
+    });
+
+    it('should require a JWT secret, plain or versioned', () => {
+      mockEnv.JWT_SECRET = undefined as any;
+      expect(validateEnv(mockEnv)).toHaveLength(1);
+
+      mockEnv.JWT_SECRET_V1 = 'Zzz3GZduRXEoIDOIBRFmlyYG1fSsGCWVEQxXL6SuP1s=';
+      expect(validateEnv(mockEnv)).toEqual([]);
+    });
+
+    it('should require an encryption key, plain or versioned', () => {
+      mockEnv.ENCRYPTION_KEY = undefined as any;
+      expect(validateEnv(mockEnv)).toEqual([
+        'ENCRYPTION_KEY: missing secret (set with: wrangler secret put ENCRYPTION_KEY_V<n>)',
+      ]);
+
+      mockEnv.ENCRYPTION_KEY_V1 = 'WogFF/kyhKg4pu3WS5R9tPC+mfuaumGy3gteyG21gNQ=';
+      expect(validateEnv(mockEnv)).toEqual([]);
+    });
+
+    it('should apply the secret rules at startup', () => {
+      mockEnv.API_KEY = 'short';
+      mockEnv.ENCRYPTION_KEY_V2 = 'not-base64!';
+
+      expect(validateEnv(mockEnv)).toEqual([
+        'API_KEY: must be at least 16 characters',
+        expect.stringContaining('API_KEY: looks too predictable'),
+        'ENCRYPTION_KEY_V2: must be base64-encoded',
+        'ENCRYPTION_KEY_V2: must be at least 32 bytes (decoded)',
+      ]);
+    });
+
+    it('should hold only the current key of each ring to the rules', () => {
+      mockEnv.JWT_SECRET = 'weak-legacy-secret';
+      mockEnv.JWT_SECRET_V1 = 'Zzz3GZduRXEoIDOIBRFmlyYG1fSsGCWVEQxXL6SuP1s=';
+      expect(validateEnv(mockEnv)).toEqual([]);
+
+      mockEnv.JWT_SECRET_V2 = 'weak-new-secret';
+      expect(validateEnv(mockEnv)).toEqual([
+        'JWT_SECRET_V2: must be at least 32 characters',
+        expect.stringContaining('JWT_SECRET_V2: looks too predictable'),
+      ]);
+    });
+
+    it('should validate an env once and keep failing with the full list', () => {
+      const env = { ...mockEnv, KV: undefined, MAX_UPLOAD_SIZE: '0' } as unknown as Env;
+
+      expect(() => assertValidEnv(env)).toThrow(/KV: missing binding[\s\S]*MAX_UPLOAD_SIZE: must be at least 1/);
+
+      // The isolate's first result stands, even if the env object changes later
+      env.KV = {} as KVNamespace;
+      expect(() => assertValidEnv(env)).toThrow(ConfigError);
+    });
+
+    it('should expose the JWT key ring newest first', () => {
+      mockEnv.JWT_SECRET_V1 = 'old-secret';
+      mockEnv.JWT_SECRET_V2 = 'Gh1cmtSHpeweGr9iTkIvAd5wsBEu6oYN1P+IozQCqb0=';
+      const config = new Config(mockEnv);
+      expect(config.jwtKeyRing.map((entry) => entry.kid)).toEqual(['v2', 'v1', undefined]);
+    });
   });
-});
+}
@@ -0,0 +1,470 @@
+/**
+ * Credential Store Example
+ *
+ * Demonstrates password-based credential verification for Cloudflare Workers:
+ * - PBKDF2 password hashing via Web Crypto (no native dependencies)
+ * - Constant-time hash comparison
+ * - A pluggable store interface with a D1 implementation
+ *
+ * Used by the `/auth/login` and `/auth/register` routes in `auth-middleware-example.ts`.
+ */
+
+import type { JWTPayload } from './auth-middleware-example';
+
+export interface Env {
+  DB: D1Database;
+}
+
+export interface UserRecord {
+  id: string;
+  email: string;
+  role: JWTPayload['role'];
+  passwordHash: string;
+  createdAt: string;
+}
+
+export type NewUserRecord = Omit<UserRecord, 'id' | 'createdAt'>;
+
+/**
+ * Storage backend for user credentials.
+ *
+ * Implement this to plug in a different database; the login and register
+ * routes only depend on this interface.
+ */
+export interface CredentialStore {
+  findById(id: string): Promise<UserRecord | null>;
+  findByEmail(email: string): Promise<UserRecord | null>;
+  /** Throws a 409 `CredentialError` if the email is taken */
+  createUser(user: NewUserRecord): Promise<UserRecord>;
+}
+
+/**
+ * Password Hasher (PBKDF2-SHA256)
+ *
+ * Hashes are stored as `pbkdf2-sha256$<iterations>$<salt>$<hash>` (base64),
+ * so the iteration count can be raised later without invalidating old hashes.
+ *
+ * Note: Workers caps PBKDF2 at 100,000 iterations.
+ */
+export class PasswordHasher {
+  static readonly MAX_ITERATIONS = 100_000;
+
+  constructor(private iterations = PasswordHasher.MAX_ITERATIONS) {}
+
+  /**
+   * Hash a password with a random 16-byte salt
+   */
+  async hash(password: string): Promise<string> {
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const derived = await this.derive(password, salt, this.iterations);
+
+    return ['pbkdf2-sha256', this.iterations, toBase64(salt), toBase64(derived)].join('$');
+  }
+
+  /**
+   * Verify a password against a stored hash. Malformed hashes never match.
+   */
+  async verify(password: string, storedHash: string): Promise<boolean> {
+    const parts = storedHash.split('$');
+
+    if (parts.length !== 4 || parts[0] !== 'pbkdf2-sha256' || !/^[1-9]\d*$/.test(parts[1])) {
+      return false;
+    }
+
+    const iterations = parseInt(parts[1], 10);
+
+    if (iterations > PasswordHasher.MAX_ITERATIONS) {
+      return false;
+    }
+
+    let salt: Uint8Array;
+    let expected: Uint8Array;
+
+    try {
+      salt = fromBase64(parts[2]);
+      expected = fromBase64(parts[3]);
+    } catch {
+      return false;
+    }
+
+    const derived = await this.derive(password, salt, iterations);
+
+    return timingSafeEqual(derived, expected);
+  }
+
+  private async derive(password: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> {
+    const keyMaterial = await crypto.subtle.importKey(
+      'raw',
+      new TextEncoder().encode(password),
+      'PBKDF2',
+      false,
+      ['deriveBits']
+    );
+
+    const bits = await crypto.subtle.deriveBits(
+      { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+      keyMaterial,
+      256
+    );
+
+    return new Uint8Array(bits);
+  }
+}
+
+/**
+ * Compare two byte arrays without short-circuiting on the first difference
+ */
+export function timingSafeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a[i] ^ b[i];
+  }
+
+  return diff === 0;
+}
+
+/**
+ * D1 Credential Store
+ *
+ * Migration (migrations/0001_create_users.sql):
+ * ```sql
+ * CREATE TABLE users (
+ *   id TEXT PRIMARY KEY,
+ *   email TEXT NOT NULL UNIQUE,
+ *   role TEXT NOT NULL DEFAULT 'user',
+ *   password_hash TEXT NOT NULL,
+ *   created_at TEXT NOT NULL
+ * );
+ * ```
+ */
+export class D1CredentialStore implements CredentialStore {
+  constructor(private db: D1Database) {}
+
+  async findById(id: string): Promise<UserRecord | null> {
+    return this.findOne('id', id);
+  }
+
+  async findByEmail(email: string): Promise<UserRecord | null> {
+    return this.findOne('email', email);
+  }
+
+  async createUser(user: NewUserRecord): Promise<UserRecord> {
+    const record: UserRecord = {
+      ...user,
+      id: crypto.randomUUID(),
+      createdAt: new Date().toISOString(),
+    };
+
+    try {
+      await this.db
+        .prepare('INSERT INTO users (id, email, role, password_hash, created_at) VALUES (?, ?, ?, ?, ?)')
+        .bind(record.id, record.email, record.role, record.passwordHash, record.createdAt)
+        .run();
+    } catch (error) {
+      // A concurrent registration won the race for this email
+      if (error instanceof Error && error.message.includes('UNIQUE constraint failed: users.email')) {
+        throw new CredentialError('Email already registered', 409);
+      }
+
+      throw error;
+    }
+
+    return record;
+  }
+
+  private async findOne(column: 'id' | 'email', value: string): Promise<UserRecord | null> {
+    const row = await this.db
+      .prepare(`SELECT id, email, role, password_hash, created_at FROM users WHERE ${column} = ?`)
+      .bind(value)
+      .first<{ id: string; email: string; role: UserRecord['role']; password_hash: string; created_at: string }>();
+
+    if (!row) {
+      return null;
+    }
+
+    return {
+      id: row.id,
+      email: row.email,
+      role: row.role,
+      passwordHash: row.password_hash,
+      createdAt: row.created_at,
+    };
+  }
+}
+
+/**
+ * In-Memory Credential Store (tests and local development)
+ */
+export class InMemoryCredentialStore implements CredentialStore {
+  private users = new Map<string, UserRecord>();
+
+  async findById(id: string): Promise<UserRecord | null> {
+    for (const user of this.users.values()) {
+      if (user.id === id) {
+        return user;
+      }
+    }
+
+    return null;
+  }
+
+  async findByEmail(email: string): Promise<UserRecord | null> {
+    return this.users.get(email) ?? null;
+  }
+
+  async createUser(user: NewUserRecord): Promise<UserRecord> {
+    if (this.users.has(user.email)) {
+      throw new CredentialError('Email already registered', 409);
+    }
+
+    const record: UserRecord = {
+      ...user,
+      id: crypto.randomUUID(),
+      createdAt: new Date().toISOString(),
+    };
+
+    this.users.set(record.email, record);
+    return record;
+  }
+}
+
+export class CredentialError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'CredentialError';
+  }
+}
+
+/**
+ * Credential Service
+ *
+ * Verifies logins and registers new users against a `CredentialStore`.
+ */
+export class CredentialService {
+  private static readonly MIN_PASSWORD_LENGTH = 12;
+
+  constructor(
+    private store: CredentialStore,
+    private hasher: PasswordHasher = new PasswordHasher()
+  ) {}
+
+  /**
+   * Verify email/password, returning the user or null.
+   *
+   * Unknown emails and passwordless accounts still run a hash so response
+   * time does not reveal which accounts exist.
+   */
+  async verifyCredentials(email: string, password: string): Promise<UserRecord | null> {
+    const user = await this.store.findByEmail(normalizeEmail(email));
+
+    if (!user || !user.passwordHash) {
+      await this.hasher.hash(password);
+      return null;
+    }
+
+    const valid = await this.hasher.verify(password, user.passwordHash);
+    return valid ? user : null;
+  }
+
+  /**
+   * Look up a user by ID (e.g. to rebuild claims on token refresh)
+   */
+  async getUser(userId: string): Promise<UserRecord | null> {
+    return this.store.findById(userId);
+  }
+
+  /**
+   * Find the user for an email address the caller has already verified
+   * (magic link, emailed code), creating a passwordless account on first
+   * sign-in. Passwordless accounts have an empty `passwordHash`, which
+   * `verifyCredentials` never accepts.
+   */
+  async findOrCreateByEmail(email: string): Promise<UserRecord> {
+    const normalized = normalizeEmail(email);
+    const existing = await this.store.findByEmail(normalized);
+
+    if (existing) {
+      return existing;
+    }
+
+    if (!EMAIL_PATTERN.test(normalized)) {
+      throw new CredentialError('Invalid email format', 400);
+    }
+
+    try {
+      return await this.store.createUser({ email: normalized, role: 'user', passwordHash: '' });
+    } catch (error) {
+      // Created by a concurrent sign-in since the lookup
+      const created = error instanceof CredentialError && error.status === 409
+        ? await this.store.findByEmail(normalized)
+        : null;
+
+      if (!created) {
+        throw error;
+      }
+
+      return created;
+    }
+  }
+
+  /**
+   * Register a new user with the default 'user' role
+   */
+  async register(email: string, password: string): Promise<UserRecord> {
+    const normalized = normalizeEmail(email);
+
+    if (!EMAIL_PATTERN.test(normalized)) {
+      throw new CredentialError('Invalid email format', 400);
+    }
+
+    if (typeof password !== 'string' || password.length < CredentialService.MIN_PASSWORD_LENGTH) {
+      throw new CredentialError(
+        `Password must be at least ${CredentialService.MIN_PASSWORD_LENGTH} characters`,
+        400
+      );
+    }
+
+    if (await this.store.findByEmail(normalized)) {
+      throw new CredentialError('Email already registered', 409);
+    }
+
+    const passwordHash = await this.hasher.hash(password);
+
+    // The store rejects a concurrent registration of the same email with 409 too
+    return this.store.createUser({ email: normalized, role: 'user', passwordHash });
+  }
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export function isValidEmail(email: string): boolean {
+  return EMAIL_PATTERN.test(normalizeEmail(email));
+}
+
+export function normalizeEmail(email: string): string {
+  return (email ?? '').toLowerCase().trim();
+}
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), c => c.charCodeAt(0));
+}
+
+/**
+ * Testing
+ */
+if (import.meta.vitest) {
+  const { describe, it, expect, beforeEach } = import.meta.vitest;
+
+  describe('PasswordHasher', () => {
+    const hasher = new PasswordHasher(1_000);
+
+    it('should verify the original password', async () => {
+      const hash = await hasher.hash('correct horse battery staple');
+
+      expect(hash.startsWith('pbkdf2-sha256$1000$')).toBe(true);
+      expect(await hasher.verify('correct horse battery staple', hash)).toBe(true);
+    });
+
+    it('should reject a wrong password', async () => {
+      const hash = await hasher.hash('correct horse battery staple');
+
+      expect(await hasher.verify('wrong password', hash)).toBe(false);
+    });
+
+    it('should reject a malformed hash', async () => {
+      expect(await hasher.verify('anything', 'not-a-hash')).toBe(false);
+      expect(await hasher.verify('anything', 'pbkdf2-sha256$abc$c2FsdA==$aGFzaA==')).toBe(false);
+      expect(await hasher.verify('anything', 'pbkdf2-sha256$0$c2FsdA==$aGFzaA==')).toBe(false);
+      expect(await hasher.verify('anything', 'pbkdf2-sha256$1000$not base64!$aGFzaA==')).toBe(false);
+    });
+
+    it('should salt each hash', async () => {
+      const a = await hasher.hash('same password');
+      const b = await hasher.hash('same password');
+
+      expect(a).not.toBe(b);
+    });
+  });
+
+  describe('CredentialService', () => {
+    let service: CredentialService;
+
+    beforeEach(() => {
+      service = new CredentialService(new InMemoryCredentialStore(), new PasswordHasher(1_000));
+    });
+
+    it('should register and verify a user', async () => {
+      const created = await service.register('Test@Example.com', 'a-long-password');
+      expect(created.email).toBe('test@example.com');
+      expect(created.role).toBe('user');
+
+      const user = await service.verifyCredentials('test@example.com', 'a-long-password');
+      expect(user?.id).toBe(created.id);
+    });
+
+    it('should return null for a wrong password', async () => {
+      await service.register('test@example.com', 'a-long-password');
+
+      expect(await service.verifyCredentials('test@example.com', 'wrong-password')).toBeNull();
+    });
+
+    it('should return null for an unknown email', async () => {
+      expect(await service.verifyCredentials('nobody@example.com', 'a-long-password')).toBeNull();
+    });
+
+    it('should reject duplicate registration with 409', async () => {
+      await service.register('test@example.com', 'a-long-password');
+
+      await expect(service.register('test@example.com', 'another-password')).rejects.toMatchObject({
+        status: 409,
+      });
+    });
+
+    it('should reject a concurrent duplicate registration with 409', async () => {
+      const results = await Promise.allSettled([
+        service.register('test@example.com', 'a-long-password'),
+        service.register('test@example.com', 'another-password'),
+      ]);
+
+      expect(results.map((result) => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+      expect(results.find((result) => result.status === 'rejected')).toMatchObject({ reason: { status: 409 } });
+    });
+
+    it('should map the D1 unique constraint to 409', async () => {
+      const db = {
+        prepare: () => ({
+          bind: () => ({
+            run: async () => {
+              throw new Error('D1_ERROR: UNIQUE constraint failed: users.email: SQLITE_CONSTRAINT');
+            },
+          }),
+        }),
+      } as unknown as D1Database;
+
+      await expect(
+        new D1CredentialStore(db).createUser({ email: 'test@example.com', role: 'user', passwordHash: 'x' })
+      ).rejects.toMatchObject({ status: 409 });
+    });
+
+    it('should reject short passwords with 400', async () => {
+      await expect(service.register('test@example.com', 'short')).rejects.toMatchObject({
+        status: 400,
+      });
+    });
+
+    it('should create passwordless accounts that never pass a password check', async () => {
+      const created = await service.findOrCreateByEmail('New@Example.com');
+
+      expect((await service.findOrCreateByEmail('new@example.com')).id).toBe(created.id);
+      expect(await service.verifyCredentials('new@example.com', '')).toBeNull();
+    });
+  });
+}
@@ -0,0 +1,354 @@
+/**
+ * Encrypted Columns Example
+ *
+ * Demonstrates field-level encryption for D1 rows:
+ * - A typed codec that encrypts selected fields on write and decrypts them on read
+ * - Ciphertexts bound to their table, column and row (AAD), so they can't be swapped
+ * - HMAC blind indexes next to encrypted fields, for equality lookups with
+ *   `db.prepare(...).bind()` without storing plaintext
+ *
+ * Values go through `encryptSensitiveData`, so they follow key rotation;
+ * add each schema to `REENCRYPTION_TARGETS` below, which the re-encryption
+ * job covers (see `reencryption-example.ts`).
+ *
+ * Blind indexes use `BLIND_INDEX_KEY`, which is not rotated with the
+ * encryption keys. They leak equality (rows with the same value share an
+ * index), so only index fields you need to look up by.
+ */
+
+import type { MfaEnrollment } from './mfa-example';
+import type { ReencryptionTarget } from './reencryption-example';
+import {
+  decryptSensitiveData,
+  deriveDataKey,
+  encryptSensitiveData,
+  SecretManager,
+  type EncryptionKeys,
+} from './secrets-example';
+
+export type ColumnCodecKeys = EncryptionKeys & { BLIND_INDEX_KEY?: string };
+
+/**
+ * Fields of `T` holding strings (the ones that can be encrypted)
+ */
+export type StringField<T> = { [K in keyof T]-?: NonNullable<T[K]> extends string ? K : never }[keyof T];
+
+export interface EncryptedFieldOptions {
+  /** Column holding an HMAC of the value, for equality lookups */
+  blindIndex?: string;
+  /** Applied before indexing (not before encrypting), e.g. lowercasing emails */
+  normalize?: (value: string) => string;
+}
+
+export interface ColumnCodecSchema<T> {
+  table: string;
+  id: StringField<T>;
+  /** Column name per field */
+  columns: { [K in keyof T]-?: string };
+  encrypted: { [K in StringField<T>]?: EncryptedFieldOptions };
+}
+
+export type Row = Record<string, unknown>;
+
+/**
+ * Column Codec
+ *
+ * Maps records to D1 rows and back. Encrypted fields are stored as
+ * ciphertext (and an optional blind index); other fields pass through.
+ */
+export class ColumnCodec<T extends object> {
+  constructor(private schema: ColumnCodecSchema<T>, private env: ColumnCodecKeys) {
+    if (schema.id in schema.encrypted) {
+      throw new Error(`${schema.table}: the id field can't be encrypted`);
+    }
+  }
+
+  async encode(record: T): Promise<Row> {
+    const row: Row = {};
+    const id = this.idOf(record);
+
+    for (const field of Object.keys(this.schema.columns) as Array<keyof T>) {
+      const column = this.schema.columns[field];
+      const value = record[field];
+      const options = this.options(field);
+
+      if (!options || value === null || value === undefined) {
+        row[column] = value ?? null;
+
+        if (options?.blindIndex) {
+          row[options.blindIndex] = null;
+        }
+        continue;
+      }
+
+      row[column] = await encryptSensitiveData(String(value), this.env, { aad: this.aad(column, id) });
+
+      if (options.blindIndex) {
+        row[options.blindIndex] = await this.blindIndex(field as StringField<T>, String(value));
+      }
+    }
+
+    return row;
+  }
+
+  async decode(row: Row): Promise<T> {
+    const record: Record<string, unknown> = {};
+    const id = String(row[this.schema.columns[this.schema.id]]);
+
+    for (const field of Object.keys(this.schema.columns) as Array<keyof T>) {
+      const column = this.schema.columns[field];
+      const value = row[column];
+
+      record[field as string] = this.options(field) && typeof value === 'string'
+        ? await decryptSensitiveData(value, this.env, { aad: this.aad(column, id) })
+        : value ?? null;
+    }
+
+    return record as T;
+  }
+
+  /**
+   * Blind index of a value, to bind in `WHERE <index column> = ?`
+   */
+  async blindIndex(field: StringField<T>, value: string): Promise<string> {
+    const options = this.options(field);
+
+    if (!options?.blindIndex) {
+      throw new Error(`${this.schema.table}.${String(field)} has no blind index`);
+    }
+
+    const key = await deriveDataKey(new SecretManager(this.env).getBlindIndexKey(), 'blind-index', ['sign']);
+    const normalized = options.normalize ? options.normalize(value) : value;
+    const mac = await crypto.subtle.sign(
+      'HMAC',
+      key,
+      // Salted with the column, so equal values in different columns don't match
+      new TextEncoder().encode(`${this.schema.table}.${options.blindIndex}:${normalized}`)
+    );
+
+    return btoa(String.fromCharCode(...new Uint8Array(mac))).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+  }
+
+  private options(field: keyof T): EncryptedFieldOptions | undefined {
+    return (this.schema.encrypted as Partial<Record<keyof T, EncryptedFieldOptions>>)[field];
+  }
+
+  private idOf(record: T): string {
+    const id = record[this.schema.id];
+
+    if (typeof id !== 'string' || id === '') {
+      throw new Error(`${this.schema.table}: records need an id before they are encrypted`);
+    }
+
+    return id;
+  }
+
+  private aad(column: string, id: string): string {
+    return columnAad(this.schema.table, column, id);
+  }
+}
+
+function columnAad(table: string, column: string, id: string): string {
+  return `${table}.${column}:${id}`;
+}
+
+/**
+ * A schema's encrypted columns, for `REENCRYPTION_TARGETS`
+ */
+export function reencryptionTargets<T>(schema: ColumnCodecSchema<T>): ReencryptionTarget[] {
+  const { table, columns, id } = schema;
+
+  return (Object.keys(schema.encrypted) as Array<StringField<T>>).map((field) => ({
+    table,
+    column: columns[field],
+    idColumn: columns[id],
+    aad: (rowId: string) => columnAad(table, columns[field], rowId),
+  }));
+}
+
+/**
+ * Example: customers with an encrypted, searchable email and an encrypted phone
+ */
+export interface Customer {
+  id: string;
+  name: string;
+  email: string;
+  phone: string | null;
+  createdAt: string;
+}
+
+export const CUSTOMER_SCHEMA: ColumnCodecSchema<Customer> = {
+  table: 'customers',
+  id: 'id',
+  columns: { id: 'id', name: 'name', email: 'email', phone: 'phone', createdAt: 'created_at' },
+  encrypted: {
+    email: { blindIndex: 'email_index', normalize: (email) => email.trim().toLowerCase() },
+    phone: {},
+  },
+};
+
+/**
+ * MFA enrollments (see `D1MfaStore` in mfa-example.ts). The TOTP secret is
+ * needed to compute codes, so it is encrypted rather than hashed.
+ */
+export const MFA_ENROLLMENT_SCHEMA: ColumnCodecSchema<MfaEnrollment> = {
+  table: 'mfa_enrollments',
+  id: 'userId',
+  columns: {
+    userId: 'user_id',
+    secret: 'secret',
+    confirmed: 'confirmed',
+    recoveryCodeHashes: 'recovery_code_hashes',
+    lastUsedStep: 'last_used_step',
+  },
+  encrypted: { secret: {} },
+};
+
+/**
+ * Columns holding `encryptSensitiveData` ciphertexts, for the re-encryption
+ * job. Only list columns whose every row is written encrypted (with the
+ * codec's `aad`): plaintext rows fail to decrypt, and are skipped.
+ */
+export const REENCRYPTION_TARGETS: ReencryptionTarget[] = [
+  ...reencryptionTargets(CUSTOMER_SCHEMA),
+  ...reencryptionTargets(MFA_ENROLLMENT_SCHEMA),
+];
+
+/**
+ * D1 Customer Store
+ *
+ * Migration (migrations/0008_create_customers.sql):
+ * ```sql
+ * CREATE TABLE customers (
+ *   id TEXT PRIMARY KEY,
+ *   name TEXT NOT NULL,
+ *   email TEXT NOT NULL, -- ciphertext
+ *   email_index TEXT NOT NULL UNIQUE, -- blind index
+ *   phone TEXT, -- ciphertext
+ *   created_at TEXT NOT NULL
+ * );
+ * ```
+ */
+export class D1CustomerStore {
+  private codec: ColumnCodec<Customer>;
+
+  constructor(private db: D1Database, env: ColumnCodecKeys) {
+    this.codec = new ColumnCodec(CUSTOMER_SCHEMA, env);
+  }
+
+  async get(id: string): Promise<Customer | null> {
+    const row = await this.db.prepare('SELECT * FROM customers WHERE id = ?').bind(id).first<Row>();
+    return row ? this.codec.decode(row) : null;
+  }
+
+  async findByEmail(email: string): Promise<Customer | null> {
+    const row = await this.db
+      .prepare('SELECT * FROM customers WHERE email_index = ?')
+      .bind(await this.codec.blindIndex('email', email))
+      .first<Row>();
+
+    return row ? this.codec.decode(row) : null;
+  }
+
+  async save(customer: Customer): Promise<void> {
+    const row = await this.codec.encode(customer);
+
+    await this.db
+      .prepare(
+        'INSERT INTO customers (id, name, email, email_index, phone, created_at) VALUES (?, ?, ?, ?, ?, ?) ' +
+        'ON CONFLICT(id) DO UPDATE SET name = excluded.name, email = excluded.email, ' +
+        'email_index = excluded.email_index, phone = excluded.phone'
+      )
+      .bind(row.id, row.name, row.email, row.email_index, row.phone, row.created_at)
+      .run();
+  }
+}
+
+/**
+ * Testing
+ */
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+
+  describe('ColumnCodec', () => {
+    // openssl rand -base64 32
+    const env: ColumnCodecKeys = {
+      ENCRYPTION_KEY_V1: 'WogFF/kyhKg4pu3WS5R9tPC+mfuaumGy3gteyG21gNQ=',
+      BLIND_INDEX_KEY: 'Xw2R0f7nTVuYYZsNB+vUwJqD2fMHVZJ4EfuMfp3HH/M=',
+    };
+    const codec = new ColumnCodec(CUSTOMER_SCHEMA, env);
+
+    const customer: Customer = {
+      id: 'cus_1',
+      name: 'Alice',
+      email: 'Alice@Example.com',
+      phone: '+15555550100',
+      createdAt: '2025-01-01T00:00:00.000Z',
+    };
+
+    it('should encrypt selected fields and round-trip the record', async () => {
+      const row = await codec.encode(customer);
+
+      expect(row).toMatchObject({ id: 'cus_1', name: 'Alice', created_at: customer.createdAt });
+      expect(JSON.stringify(row)).not.toContain('Example.com');
+      expect(JSON.stringify(row)).not.toContain('5555550100');
+      expect(await codec.decode(row)).toEqual(customer);
+    });
+
+    it('should keep nulls as nulls', async () => {
+      const row = await codec.encode({ ...customer, phone: null });
+
+      expect(row.phone).toBeNull();
+      expect((await codec.decode(row)).phone).toBeNull();
+    });
+
+    it('should store a blind index usable for lookups', async () => {
+      const row = await codec.encode(customer);
+
+      // Normalized, so lookups don't depend on how the address was typed
+      expect(row.email_index).toBe(await codec.blindIndex('email', ' alice@example.COM '));
+      expect(row.email_index).not.toBe(await codec.blindIndex('email', 'bob@example.com'));
+    });
+
+    it('should keep blind indexes stable across encryption key rotations', async () => {
+      const rotatedEnv = { ...env, ENCRYPTION_KEY_V2: 'h4iHy+QafA43hWky8CTtOhbqFiD+cxtAw0x1v+ej42I=' };
+      const rotated = new ColumnCodec(CUSTOMER_SCHEMA, rotatedEnv);
+
+      expect(await rotated.blindIndex('email', customer.email)).toBe(await codec.blindIndex('email', customer.email));
+      expect(await rotated.decode(await codec.encode(customer))).toEqual(customer);
+    });
+
+    it('should refuse ciphertexts moved to another row', async () => {
+      const row = await codec.encode(customer);
+      const other = await codec.encode({ ...customer, id: 'cus_2', email: 'bob@example.com' });
+
+      await expect(codec.decode({ ...other, email: row.email })).rejects.toThrow();
+    });
+
+    it('should reject blind index lookups on fields without one', async () => {
+      await expect(codec.blindIndex('phone', '+15555550100')).rejects.toThrow('customers.phone has no blind index');
+    });
+
+    it('should encrypt MFA secrets', async () => {
+      const mfa = new ColumnCodec(MFA_ENROLLMENT_SCHEMA, env);
+      const enrollment = {
+        userId: '1',
+        secret: 'JBSWY3DPEHPK3PXP',
+        confirmed: true,
+        recoveryCodeHashes: [],
+        lastUsedStep: 0,
+      };
+      const row = await mfa.encode(enrollment);
+
+      expect(row.secret).not.toContain('JBSWY3DPEHPK3PXP');
+      expect(await mfa.decode(row)).toEqual(enrollment);
+    });
+
+    it('should describe its columns for re-encryption', () => {
+      const targets = reencryptionTargets(CUSTOMER_SCHEMA);
+
+      expect(targets.map(({ column }) => column)).toEqual(['email', 'phone']);
+      expect(targets[0].aad?.('cus_1')).toBe('customers.email:cus_1');
+    });
+  });
+}
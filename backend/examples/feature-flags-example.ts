@@ -0,0 +1,389 @@
+/**
+ * Feature Flags Example
+ *
+ * Demonstrates runtime feature flags on the `KV` binding (`Config.kv`), so
+ * turning a feature on or off doesn't need a redeploy:
+ * - Boolean and multivariant flags
+ * - Targeting rules by role or organization (first match wins)
+ * - Deterministic percentage rollout by user ID
+ * - A small in-isolate cache with a short TTL
+ * - `PUT /admin/flags/:key` to change a flag (wired in `auth-middleware-example.ts`)
+ *
+ * Static per-environment toggles stay in `Config` settings; use a flag
+ * when the value has to change between deploys.
+ *
+ * Note: cached reads mean a change can take up to `CACHE_TTL_MS` (plus KV
+ * propagation, up to ~60s) to reach other isolates.
+ */
+
+import type { JWTPayload } from './auth-middleware-example';
+
+export type FlagValue = boolean | string;
+
+export interface FlagRule<V extends FlagValue = FlagValue> {
+  roles?: string[];
+  orgIds?: string[];
+  value: V;
+}
+
+export interface FlagDefinition<V extends FlagValue = FlagValue> {
+  /** Off switch: when false, everyone gets `offValue` */
+  enabled: boolean;
+  /** Served when disabled, and to users outside every rule and rollout bucket */
+  offValue: V;
+  rules?: FlagRule<V>[];
+  /** Percentages of users (by ID) per value, at most 100 in total */
+  rollout?: Array<{ value: V; percent: number }>;
+}
+
+/**
+ * Who a flag is evaluated for
+ */
+export type FlagContext = Pick<JWTPayload, 'userId' | 'role' | 'orgId'>;
+
+interface CacheEntry {
+  definition: FlagDefinition | null;
+  expiresAt: number; // epoch ms
+}
+
+// Shared by every request in this isolate, per namespace
+const caches = new WeakMap<KVNamespace, Map<string, CacheEntry>>();
+
+function cacheFor(kv: KVNamespace): Map<string, CacheEntry> {
+  let cache = caches.get(kv);
+
+  if (!cache) {
+    cache = new Map();
+    caches.set(kv, cache);
+  }
+
+  return cache;
+}
+
+/**
+ * Feature Flag Service (KV)
+ */
+export class FeatureFlags {
+  static readonly CACHE_TTL_MS = 30 * 1000;
+
+  private readonly cache: Map<string, CacheEntry>;
+
+  constructor(private kv: KVNamespace, private now: () => number = Date.now) {
+    this.cache = cacheFor(kv);
+  }
+
+  /**
+   * Whether a boolean flag is on for this user. Unknown flags are off.
+   */
+  async isEnabled(key: string, context: FlagContext): Promise<boolean> {
+    return (await this.evaluate(key, context, false)) === true;
+  }
+
+  /**
+   * The variant of a multivariant flag for this user, or `fallback` for
+   * unknown flags
+   */
+  async variant(key: string, context: FlagContext, fallback: string): Promise<string> {
+    const value = await this.evaluate(key, context, fallback);
+    return typeof value === 'string' ? value : fallback;
+  }
+
+  async evaluate(key: string, context: FlagContext, fallback: FlagValue): Promise<FlagValue> {
+    const definition = await this.get(key);
+
+    if (!definition) {
+      return fallback;
+    }
+
+    if (!definition.enabled) {
+      return definition.offValue;
+    }
+
+    const rule = definition.rules?.find(
+      (candidate) =>
+        (!candidate.roles || candidate.roles.includes(context.role)) &&
+        (!candidate.orgIds || (context.orgId !== undefined && candidate.orgIds.includes(context.orgId)))
+    );
+
+    if (rule) {
+      return rule.value;
+    }
+
+    if (definition.rollout) {
+      const position = await bucket(key, context.userId);
+      let threshold = 0;
+
+      for (const { value, percent } of definition.rollout) {
+        threshold += percent;
+
+        if (position < threshold) {
+          return value;
+        }
+      }
+    }
+
+    return definition.offValue;
+  }
+
+  async get(key: string): Promise<FlagDefinition | null> {
+    const cached = this.cache.get(key);
+
+    if (cached && cached.expiresAt > this.now()) {
+      return cached.definition;
+    }
+
+    const data = await this.kv.get(`flag:${key}`);
+    const definition: FlagDefinition | null = data ? JSON.parse(data) : null;
+    this.cache.set(key, { definition, expiresAt: this.now() + FeatureFlags.CACHE_TTL_MS });
+
+    return definition;
+  }
+
+  async set(key: string, definition: FlagDefinition): Promise<void> {
+    await this.kv.put(`flag:${key}`, JSON.stringify(definition));
+    this.cache.set(key, { definition, expiresAt: this.now() + FeatureFlags.CACHE_TTL_MS });
+  }
+
+  async list(): Promise<Record<string, FlagDefinition>> {
+    const { keys } = await this.kv.list({ prefix: 'flag:' });
+    const flags: Record<string, FlagDefinition> = {};
+
+    for (const { name } of keys) {
+      const key = name.slice('flag:'.length);
+      const definition = await this.get(key);
+
+      if (definition) {
+        flags[key] = definition;
+      }
+    }
+
+    return flags;
+  }
+}
+
+/**
+ * Position of a user in a flag's rollout, in [0, 100). Salted with the flag
+ * key so the same users aren't first in every rollout.
+ */
+async function bucket(key: string, userId: string): Promise<number> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${key}:${userId}`));
+  return (new DataView(digest).getUint32(0) % 10_000) / 100;
+}
+
+/**
+ * Check an untrusted flag definition (admin route input)
+ */
+export function validateFlagDefinition(input: unknown): string | null {
+  const definition = input as Partial<FlagDefinition> | null;
+
+  if (!definition || typeof definition !== 'object') {
+    return 'Body must be a flag definition';
+  }
+
+  if (typeof definition.enabled !== 'boolean') {
+    return '`enabled` must be a boolean';
+  }
+
+  const kind = typeof definition.offValue;
+
+  if (kind !== 'boolean' && kind !== 'string') {
+    return '`offValue` must be a boolean or a string';
+  }
+
+  if (![definition.rules, definition.rollout].every((list) => list === undefined || Array.isArray(list))) {
+    return '`rules` and `rollout` must be arrays';
+  }
+
+  const isStringList = (list: unknown) =>
+    list === undefined || (Array.isArray(list) && list.every((item) => typeof item === 'string'));
+
+  // A string here would make `includes` match substrings
+  if (!(definition.rules ?? []).every((rule) => rule && isStringList(rule.roles) && isStringList(rule.orgIds))) {
+    return 'Rule `roles` and `orgIds` must be arrays of strings';
+  }
+
+  const values = [...(definition.rules ?? []), ...(definition.rollout ?? [])].map((entry) => entry?.value);
+
+  if (values.some((value) => typeof value !== kind)) {
+    return 'Every value must have the same type as `offValue`';
+  }
+
+  const total = (definition.rollout ?? []).reduce((sum, { percent }) => sum + percent, 0);
+
+  if ((definition.rollout ?? []).some(({ percent }) => typeof percent !== 'number' || percent < 0) || total > 100) {
+    return 'Rollout percentages must be non-negative and add up to at most 100';
+  }
+
+  return null;
+}
+
+/**
+ * Admin Flag Route
+ *
+ * `GET /admin/flags` lists flags; `PUT /admin/flags/:key` with a
+ * `FlagDefinition` body creates or replaces one.
+ */
+export async function handleFlagRoute(request: Request, flags: FeatureFlags, key?: string): Promise<Response> {
+  const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  if (!key) {
+    return json(await flags.list());
+  }
+
+  if (!/^[a-z0-9][a-z0-9-]{0,63}$/.test(key)) {
+    return json({ error: 'Flag keys are lowercase letters, digits and dashes' }, 400);
+  }
+
+  const definition = await request.json().catch(() => null);
+  const error = validateFlagDefinition(definition);
+
+  if (error) {
+    return json({ error }, 400);
+  }
+
+  await flags.set(key, definition as FlagDefinition);
+  return json({ key, ...(definition as FlagDefinition) });
+}
+
+/**
+ * Testing
+ */
+if (import.meta.vitest) {
+  const { describe, it, expect, beforeEach } = import.meta.vitest;
+  const { createMockKV } = await import('../../testing/backend/mocks/cloudflare-bindings');
+
+  describe('FeatureFlags', () => {
+    let clock: number;
+    let kv: ReturnType<typeof createMockKV>;
+    let flags: FeatureFlags;
+
+    beforeEach(() => {
+      clock = Date.parse('2025-01-01T00:00:00Z');
+      kv = createMockKV();
+      flags = new FeatureFlags(kv as unknown as KVNamespace, () => clock);
+    });
+
+    const user = (userId: string, overrides: Partial<FlagContext> = {}): FlagContext => ({
+      userId,
+      role: 'user',
+      ...overrides,
+    });
+
+    it('should treat unknown flags as off', async () => {
+      expect(await flags.isEnabled('new-editor', user('1'))).toBe(false);
+      expect(await flags.variant('checkout', user('1'), 'control')).toBe('control');
+    });
+
+    it('should honor the off switch', async () => {
+      await flags.set('new-editor', { enabled: false, offValue: false, rollout: [{ value: true, percent: 100 }] });
+
+      expect(await flags.isEnabled('new-editor', user('1'))).toBe(false);
+    });
+
+    it('should target by role or organization', async () => {
+      await flags.set('new-editor', {
+        enabled: true,
+        offValue: false,
+        rules: [{ roles: ['admin'], value: true }, { orgIds: ['org-beta'], value: true }],
+      });
+
+      expect(await flags.isEnabled('new-editor', user('1', { role: 'admin' }))).toBe(true);
+      expect(await flags.isEnabled('new-editor', user('2', { orgId: 'org-beta' }))).toBe(true);
+      expect(await flags.isEnabled('new-editor', user('3', { orgId: 'org-other' }))).toBe(false);
+    });
+
+    it('should roll out deterministically by user ID', async () => {
+      await flags.set('new-editor', { enabled: true, offValue: false, rollout: [{ value: true, percent: 25 }] });
+
+      const users = Array.from({ length: 400 }, (_, i) => user(`user-${i}`));
+      const first = await Promise.all(users.map((u) => flags.isEnabled('new-editor', u)));
+      const second = await Promise.all(users.map((u) => flags.isEnabled('new-editor', u)));
+      const share = first.filter(Boolean).length / users.length;
+
+      expect(second).toEqual(first);
+      expect(share).toBeGreaterThan(0.15);
+      expect(share).toBeLessThan(0.35);
+    });
+
+    it('should split users across variants', async () => {
+      await flags.set('checkout', {
+        enabled: true,
+        offValue: 'control',
+        rollout: [
+          { value: 'one-page', percent: 50 },
+          { value: 'wizard', percent: 50 },
+        ],
+      });
+
+      const variants = new Set(
+        await Promise.all(Array.from({ length: 50 }, (_, i) => flags.variant('checkout', user(`user-${i}`), 'control')))
+      );
+
+      expect(variants).toEqual(new Set(['one-page', 'wizard']));
+    });
+
+    it('should serve repeated reads from the isolate cache', async () => {
+      await kv.put('flag:new-editor', JSON.stringify({ enabled: true, offValue: true }));
+
+      await flags.isEnabled('new-editor', user('1'));
+      await flags.isEnabled('new-editor', user('2'));
+      expect(kv.get).toHaveBeenCalledTimes(1);
+
+      clock += FeatureFlags.CACHE_TTL_MS + 1;
+      await flags.isEnabled('new-editor', user('1'));
+      expect(kv.get).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not share cached flags between namespaces', async () => {
+      await flags.set('new-editor', { enabled: true, offValue: true });
+
+      const other = new FeatureFlags(createMockKV() as unknown as KVNamespace, () => clock);
+      expect(await other.isEnabled('new-editor', user('1'))).toBe(false);
+    });
+  });
+
+  describe('handleFlagRoute', () => {
+    let flags: FeatureFlags;
+
+    beforeEach(() => {
+      flags = new FeatureFlags(createMockKV() as unknown as KVNamespace);
+    });
+
+    const put = (key: string, body: unknown) => {
+      const request = new Request(`https://example.com/admin/flags/${key}`, { method: 'PUT', body: JSON.stringify(body) });
+      return handleFlagRoute(request, flags, key);
+    };
+
+    it('should flip a flag', async () => {
+      const response = await put('new-editor', {
+        enabled: true,
+        offValue: false,
+        rules: [{ roles: ['user'], value: true }],
+      });
+
+      expect(response.status).toBe(200);
+      expect(await flags.isEnabled('new-editor', { userId: '1', role: 'user' })).toBe(true);
+
+      const listed = await handleFlagRoute(new Request('https://example.com/admin/flags'), flags);
+      expect(Object.keys(await listed.json())).toEqual(['new-editor']);
+    });
+
+    it('should reject invalid definitions', async () => {
+      const mixedTypes = { enabled: true, offValue: 'control', rollout: [{ value: true, percent: 10 }] };
+      const overAllocated = { enabled: true, offValue: 'a', rollout: [{ value: 'b', percent: 101 }] };
+
+      expect((await put('new-editor', { enabled: 'yes', offValue: false })).status).toBe(400);
+      expect((await put('checkout', mixedTypes)).status).toBe(400);
+      expect((await put('checkout', overAllocated)).status).toBe(400);
+      expect((await put('new-editor', { enabled: true, offValue: false, rules: [{ roles: 'admin', value: true }] })).status)
+        .toBe(400);
+      expect((await put('new-editor', { enabled: true, offValue: false, rules: [{ orgIds: [1], value: true }] })).status)
+        .toBe(400);
+      expect((await put('Bad Key', { enabled: true, offValue: false })).status).toBe(400);
+    });
+  });
+}
@@ -0,0 +1,193 @@
+/**
+ * Impersonation Example
+ *
+ * Demonstrates support staff signing in as a user to reproduce a problem:
+ * - A short-lived access token for the user, with an RFC 8693 `act` claim naming the admin
+ * - Dangerous routes blocked while impersonating (admin, MFA enrollment, logout, ...)
+ * - An append-only D1 audit trail of every impersonation start and stop
+ *
+ * The routes (`POST /admin/users/:id/impersonate` and
+ * `POST /auth/impersonate/stop`) and the route blocking in `authMiddleware`
+ * live in `auth-middleware-example.ts`.
+ *
+ * Impersonation tokens come without a refresh token: when one expires,
+ * support starts a new session (and a new audit entry).
+ */
+
+import type { JWTPayload } from './auth-middleware-example';
+
+export interface Env {
+  DB: D1Database;
+}
+
+export const IMPERSONATION_TTL_SECONDS = 15 * 60;
+
+export interface ImpersonationEvent {
+  id: string;
+  action: 'start' | 'stop';
+  actorId: string; // the admin
+  subjectId: string; // the impersonated user
+  tokenId: string; // `jti` of the impersonation token
+  reason: string | null;
+  createdAt: string;
+}
+
+export type NewImpersonationEvent = Omit<ImpersonationEvent, 'id' | 'createdAt'>;
+
+/**
+ * Audit trail for impersonation. Entries are only ever appended.
+ */
+export interface ImpersonationAuditLog {
+  append(event: NewImpersonationEvent): Promise<void>;
+  listForSubject(subjectId: string): Promise<ImpersonationEvent[]>;
+}
+
+/**
+ * D1 Impersonation Audit Log
+ *
+ * The triggers make the table append-only even for code that bypasses
+ * this class.
+ *
+ * Migration (migrations/0005_create_impersonation_audit.sql):
+ * ```sql
+ * CREATE TABLE impersonation_audit (
+ *   id TEXT PRIMARY KEY,
+ *   action TEXT NOT NULL CHECK (action IN ('start', 'stop')),
+ *   actor_id TEXT NOT NULL REFERENCES users(id),
+ *   subject_id TEXT NOT NULL REFERENCES users(id),
+ *   token_id TEXT NOT NULL,
+ *   reason TEXT,
+ *   created_at TEXT NOT NULL
+ * );
+ * CREATE INDEX idx_impersonation_audit_subject ON impersonation_audit(subject_id, created_at);
+ *
+ * CREATE TRIGGER impersonation_audit_no_update BEFORE UPDATE ON impersonation_audit
+ * BEGIN SELECT RAISE(ABORT, 'impersonation_audit is append-only'); END;
+ * CREATE TRIGGER impersonation_audit_no_delete BEFORE DELETE ON impersonation_audit
+ * BEGIN SELECT RAISE(ABORT, 'impersonation_audit is append-only'); END;
+ * ```
+ */
+export class D1ImpersonationAuditLog implements ImpersonationAuditLog {
+  constructor(private db: D1Database) {}
+
+  async append(event: NewImpersonationEvent): Promise<void> {
+    await this.db
+      .prepare(
+        'INSERT INTO impersonation_audit (id, action, actor_id, subject_id, token_id, reason, created_at) ' +
+        'VALUES (?, ?, ?, ?, ?, ?, ?)'
+      )
+      .bind(
+        crypto.randomUUID(),
+        event.action,
+        event.actorId,
+        event.subjectId,
+        event.tokenId,
+        event.reason,
+        new Date().toISOString()
+      )
+      .run();
+  }
+
+  async listForSubject(subjectId: string): Promise<ImpersonationEvent[]> {
+    const { results } = await this.db
+      .prepare('SELECT * FROM impersonation_audit WHERE subject_id = ? ORDER BY created_at')
+      .bind(subjectId)
+      .all<{
+        id: string;
+        action: ImpersonationEvent['action'];
+        actor_id: string;
+        subject_id: string;
+        token_id: string;
+        reason: string | null;
+        created_at: string;
+      }>();
+
+    return results.map((row) => ({
+      id: row.id,
+      action: row.action,
+      actorId: row.actor_id,
+      subjectId: row.subject_id,
+      tokenId: row.token_id,
+      reason: row.reason,
+      createdAt: row.created_at,
+    }));
+  }
+}
+
+/**
+ * In-Memory Impersonation Audit Log (tests and local development)
+ */
+export class InMemoryImpersonationAuditLog implements ImpersonationAuditLog {
+  private events: ImpersonationEvent[] = [];
+
+  async append(event: NewImpersonationEvent): Promise<void> {
+    this.events.push({ ...event, id: crypto.randomUUID(), createdAt: new Date().toISOString() });
+  }
+
+  async listForSubject(subjectId: string): Promise<ImpersonationEvent[]> {
+    return this.events.filter((event) => event.subjectId === subjectId);
+  }
+}
+
+/**
+ * Routes an impersonating admin may not call, by path prefix. Add anything
+ * that changes credentials, money or access: password and email changes,
+ * API key management, payment methods, account deletion.
+ */
+export const BLOCKED_WHILE_IMPERSONATING = [
+  '/admin/', // the user's own admin rights, if any, stay with the user
+  '/api/mfa/',
+  '/auth/logout', // and logout-all; `/auth/impersonate/stop` ends the session and records it
+  '/auth/switch-org', // would mint a regular token pair for the user
+];
+
+/**
+ * Whether an authenticated request is being made on behalf of an admin
+ */
+export function isImpersonating(user: JWTPayload): user is JWTPayload & { act: { sub: string } } {
+  return !!user.act?.sub;
+}
+
+export function isBlockedWhileImpersonating(request: Request): boolean {
+  const { pathname } = new URL(request.url);
+  return BLOCKED_WHILE_IMPERSONATING.some((prefix) => pathname.startsWith(prefix));
+}
+
+/**
+ * Testing
+ */
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+
+  describe('InMemoryImpersonationAuditLog', () => {
+    it('should list events for a user in order', async () => {
+      const audit = new InMemoryImpersonationAuditLog();
+      const event = { actorId: 'admin-1', subjectId: 'user-1', tokenId: 'jti-1', reason: 'Ticket #123' };
+
+      await audit.append({ ...event, action: 'start' });
+      await audit.append({ ...event, action: 'stop' });
+      await audit.append({ ...event, subjectId: 'user-2', action: 'start' });
+
+      const events = await audit.listForSubject('user-1');
+      expect(events.map((entry) => entry.action)).toEqual(['start', 'stop']);
+      expect(events[0]).toMatchObject({ actorId: 'admin-1', reason: 'Ticket #123' });
+    });
+  });
+
+  describe('isBlockedWhileImpersonating', () => {
+    const request = (path: string) => new Request(`https://example.com${path}`, { method: 'POST' });
+
+    it('should block dangerous routes', () => {
+      expect(isBlockedWhileImpersonating(request('/admin/users/1/revoke-tokens'))).toBe(true);
+      expect(isBlockedWhileImpersonating(request('/api/mfa/enroll'))).toBe(true);
+      expect(isBlockedWhileImpersonating(request('/auth/logout'))).toBe(true);
+      expect(isBlockedWhileImpersonating(request('/auth/logout-all'))).toBe(true);
+      expect(isBlockedWhileImpersonating(request('/auth/switch-org'))).toBe(true);
+    });
+
+    it('should allow everything else', () => {
+      expect(isBlockedWhileImpersonating(request('/api/profile'))).toBe(false);
+      expect(isBlockedWhileImpersonating(request('/auth/impersonate/stop'))).toBe(false);
+    });
+  });
+}
@@ -0,0 +1,398 @@
+/**
+ * JWT Signing Keys Example
+ *
+ * Demonstrates asymmetric JWT signing (ES256/RS256) for Cloudflare Workers:
+ * - Load a private key from a secret (PKCS#8 PEM)
+ * - Publish the matching public key at `/.well-known/jwks.json`
+ * - Pick the verification key by the token's `kid` header
+ *
+ * Downstream Workers only need the JWKS URL to verify tokens; they never
+ * hold the signing secret.
+ *
+ * Moving from HS256 to a private key: once `JWT_PRIVATE_KEY` is set, HS256
+ * tokens are rejected, since anyone holding `JWT_SECRET` could still mint
+ * them. To keep already-issued HS256 tokens working through the switch, set
+ * `JWT_HS256_ACCEPT_UNTIL` to the time the last of them expires (e.g. now
+ * plus the refresh token lifetime), then delete it and `JWT_SECRET`.
+ */
+
+import {
+  calculateJwkThumbprint,
+  createRemoteJWKSet,
+  exportJWK,
+  importJWK,
+  importPKCS8,
+  jwtVerify,
+  type JWK,
+  type JWTHeaderParameters,
+  type JWTPayload,
+  type JWTVerifyGetKey,
+  type KeyLike,
+} from 'jose';
+import {
+  SecretManager,
+  type JwtKeyRingEntry,
+  type VersionedEncryptionKeys,
+  type VersionedJwtSecrets,
+} from './secrets-example';
+
+export type JwtAlgorithm = 'HS256' | 'ES256' | 'RS256';
+
+// VersionedEncryptionKeys only so the env can be handed to SecretManager; this file doesn't read them
+export interface Env extends VersionedJwtSecrets, VersionedEncryptionKeys {
+  // Symmetric HS256 key ring (JWT_SECRET_V<n>, then JWT_SECRET)
+  JWT_SECRET: string;
+
+  // Asymmetric signing (optional): wrangler secret put JWT_PRIVATE_KEY
+  JWT_ALG?: JwtAlgorithm;
+  JWT_PRIVATE_KEY?: string;
+  JWT_KEY_ID?: string;
+  JWT_HS256_ACCEPT_UNTIL?: string; // ISO 8601; end of the HS256 migration window
+}
+
+export interface SigningKey {
+  alg: JwtAlgorithm;
+  kid?: string;
+  key: KeyLike | Uint8Array;
+}
+
+interface AsymmetricKey {
+  alg: Exclude<JwtAlgorithm, 'HS256'>;
+  kid: string;
+  privateKey: KeyLike;
+  publicKey: KeyLike;
+  publicJwk: JWK;
+}
+
+// Parsed keys are cached per isolate; importing a PEM on every request is wasteful
+const asymmetricKeyCache = new Map<string, Promise<AsymmetricKey>>();
+
+/**
+ * JWT Key Store
+ *
+ * Resolves signing and verification keys from env. When `JWT_PRIVATE_KEY`
+ * is set, tokens are signed with it; otherwise the newest secret in the
+ * HS256 key ring is used (see `readJwtKeyRing` in secrets-example.ts).
+ */
+export class JwtKeyStore {
+  constructor(private env: Env, private now: () => number = Date.now) {}
+
+  /**
+   * Get the key used to sign new tokens
+   */
+  async getSigningKey(): Promise<SigningKey> {
+    const asymmetric = await this.loadAsymmetricKey();
+
+    if (asymmetric) {
+      return { alg: asymmetric.alg, kid: asymmetric.kid, key: asymmetric.privateKey };
+    }
+
+    const [current] = this.secretRing();
+    return { alg: 'HS256', kid: current.kid, key: encodeSecret(current.secret) };
+  }
+
+  /**
+   * Resolve the verification key for a token header (jose `getKey` callback)
+   */
+  getVerificationKey = async (header: JWTHeaderParameters): Promise<KeyLike | Uint8Array> => {
+    if (header.alg === 'HS256') {
+      if (!this.algorithms.includes('HS256')) {
+        throw new Error('HS256 tokens are no longer accepted');
+      }
+
+      const entry = this.secretRing().find((candidate) => candidate.kid === header.kid);
+
+      if (!entry) {
+        throw new Error(`Unknown signing key: ${header.kid ?? '(none)'}`);
+      }
+
+      return encodeSecret(entry.secret);
+    }
+
+    const asymmetric = await this.loadAsymmetricKey();
+
+    if (!asymmetric || header.alg !== asymmetric.alg || header.kid !== asymmetric.kid) {
+      throw new Error(`Unknown signing key: ${header.kid ?? '(none)'}`);
+    }
+
+    return asymmetric.publicKey;
+  };
+
+  /**
+   * Algorithms accepted during verification. With a private key, HS256 only
+   * until `JWT_HS256_ACCEPT_UNTIL`.
+   */
+  get algorithms(): JwtAlgorithm[] {
+    if (!this.env.JWT_PRIVATE_KEY) {
+      return ['HS256'];
+    }
+
+    return this.now() < this.hs256AcceptUntil() ? [this.asymmetricAlg(), 'HS256'] : [this.asymmetricAlg()];
+  }
+
+  /**
+   * Public keys in JWKS format (never includes private or symmetric keys)
+   */
+  async getJwks(): Promise<{ keys: JWK[] }> {
+    const asymmetric = await this.loadAsymmetricKey();
+
+    return { keys: asymmetric ? [asymmetric.publicJwk] : [] };
+  }
+
+  private secretRing(): JwtKeyRingEntry[] {
+    return new SecretManager(this.env).getJwtKeyRing();
+  }
+
+  private hs256AcceptUntil(): number {
+    const until = this.env.JWT_HS256_ACCEPT_UNTIL;
+
+    if (!until) {
+      return 0;
+    }
+
+    const time = Date.parse(until);
+
+    if (Number.isNaN(time)) {
+      throw new Error('JWT_HS256_ACCEPT_UNTIL must be an ISO 8601 date');
+    }
+
+    return time;
+  }
+
+  private asymmetricAlg(): Exclude<JwtAlgorithm, 'HS256'> {
+    const alg = this.env.JWT_ALG ?? 'ES256';
+
+    if (alg === 'HS256') {
+      throw new Error('JWT_ALG must be ES256 or RS256 when JWT_PRIVATE_KEY is set');
+    }
+
+    return alg;
+  }
+
+  private loadAsymmetricKey(): Promise<AsymmetricKey | null> {
+    const pem = this.env.JWT_PRIVATE_KEY;
+
+    if (!pem) {
+      return Promise.resolve(null);
+    }
+
+    const alg = this.asymmetricAlg();
+    const cacheKey = `${alg}:${this.env.JWT_KEY_ID ?? ''}:${pem}`;
+
+    let cached = asymmetricKeyCache.get(cacheKey);
+    if (!cached) {
+      cached = importAsymmetricKey(pem, alg, this.env.JWT_KEY_ID);
+      cached.catch(() => asymmetricKeyCache.delete(cacheKey));
+      asymmetricKeyCache.set(cacheKey, cached);
+    }
+
+    return cached;
+  }
+}
+
+function encodeSecret(secret: string): Uint8Array {
+  return new TextEncoder().encode(secret);
+}
+
+/**
+ * Import a PKCS#8 private key and derive its public JWK.
+ *
+ * The `kid` defaults to the RFC 7638 JWK thumbprint, so it changes
+ * automatically whenever the key does.
+ */
+async function importAsymmetricKey(
+  pem: string,
+  alg: Exclude<JwtAlgorithm, 'HS256'>,
+  keyId?: string
+): Promise<AsymmetricKey> {
+  const privateKey = await importPKCS8(pem, alg, { extractable: true });
+  const { d, p, q, dp, dq, qi, ...publicParams } = await exportJWK(privateKey);
+
+  const kid = keyId ?? (await calculateJwkThumbprint(publicParams));
+  const publicJwk: JWK = { ...publicParams, kid, alg, use: 'sig' };
+  const publicKey = (await importJWK(publicJwk, alg)) as KeyLike;
+
+  return { alg, kid, privateKey, publicKey, publicJwk };
+}
+
+/**
+ * JWKS Endpoint Handler (`GET /.well-known/jwks.json`)
+ */
+export async function handleJwksRequest(env: Env): Promise<Response> {
+  const jwks = await new JwtKeyStore(env).getJwks();
+
+  return new Response(JSON.stringify(jwks), {
+    status: 200,
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'public, max-age=300',
+    },
+  });
+}
+
+/**
+ * Downstream Verification
+ *
+ * A Worker that only consumes tokens verifies them against the issuer's
+ * JWKS. jose caches the key set and refetches when it sees an unknown `kid`.
+ * `issuer` and `audience` are required: without them the Worker would accept
+ * tokens the same issuer minted for other services.
+ *
+ * ```typescript
+ * const verify = createJwksVerifier('https://auth.example.com/.well-known/jwks.json', {
+ *   issuer: 'https://auth.example.com',
+ *   audience: 'https://billing.example.com',
+ * });
+ * const payload = await verify(token);
+ * ```
+ */
+export interface JwksVerifierOptions {
+  issuer: string;
+  audience: string;
+  algorithms?: Array<Exclude<JwtAlgorithm, 'HS256'>>;
+}
+
+export function createJwksVerifier(
+  jwksUrl: string,
+  { issuer, audience, algorithms = ['ES256', 'RS256'] }: JwksVerifierOptions,
+  jwks: JWTVerifyGetKey = createRemoteJWKSet(new URL(jwksUrl))
+) {
+  if (!issuer || !audience) {
+    throw new Error('createJwksVerifier needs an issuer and an audience');
+  }
+
+  return async (token: string): Promise<JWTPayload> => {
+    const { payload } = await jwtVerify(token, jwks, { algorithms, issuer, audience });
+    return payload;
+  };
+}
+
+/**
+ * Testing
+ */
+if (import.meta.vitest) {
+  const { describe, it, expect, beforeAll } = import.meta.vitest;
+  const { createLocalJWKSet, exportPKCS8, generateKeyPair, SignJWT } = await import('jose');
+
+  // openssl rand -base64 32
+  const TEST_JWT_SECRET = 'zHzsEHIktyiICWKtg1x4rk5dzyPOWY+EvPhT4/wsWT8=';
+  const FIRST_SECRET = 'Zzz3GZduRXEoIDOIBRFmlyYG1fSsGCWVEQxXL6SuP1s=';
+  const SECOND_SECRET = 'Gh1cmtSHpeweGr9iTkIvAd5wsBEu6oYN1P+IozQCqb0=';
+
+  describe('JwtKeyStore', () => {
+    let ecPem: string;
+    let rsaPem: string;
+
+    beforeAll(async () => {
+      const ec = await generateKeyPair('ES256', { extractable: true });
+      const rsa = await generateKeyPair('RS256', { extractable: true });
+      ecPem = await exportPKCS8(ec.privateKey);
+      rsaPem = await exportPKCS8(rsa.privateKey);
+    });
+
+    it('should fall back to HS256 when no private key is configured', async () => {
+      const store = new JwtKeyStore({ JWT_SECRET: TEST_JWT_SECRET });
+
+      const signing = await store.getSigningKey();
+      expect(signing.alg).toBe('HS256');
+      expect((await store.getJwks()).keys).toHaveLength(0);
+    });
+
+    it('should sign with ES256 and publish only the public key', async () => {
+      const store = new JwtKeyStore({ JWT_SECRET: TEST_JWT_SECRET, JWT_PRIVATE_KEY: ecPem });
+
+      const signing = await store.getSigningKey();
+      expect(signing.alg).toBe('ES256');
+
+      const { keys } = await store.getJwks();
+      expect(keys).toHaveLength(1);
+      expect(keys[0].kid).toBe(signing.kid);
+      expect(keys[0].d).toBeUndefined();
+    });
+
+    it('should let a downstream verifier check tokens with the JWKS alone', async () => {
+      const store = new JwtKeyStore({ JWT_SECRET: TEST_JWT_SECRET, JWT_ALG: 'RS256', JWT_PRIVATE_KEY: rsaPem });
+      const signing = await store.getSigningKey();
+
+      const token = await new SignJWT({ userId: '123' })
+        .setProtectedHeader({ alg: signing.alg, kid: signing.kid })
+        .setExpirationTime('5m')
+        .sign(signing.key);
+
+      const { payload } = await jwtVerify(token, createLocalJWKSet(await store.getJwks()));
+      expect(payload.userId).toBe('123');
+    });
+
+    it('should stop accepting HS256 once a private key is set', async () => {
+      const hs256Token = await new SignJWT({ userId: '123' })
+        .setProtectedHeader({ alg: 'HS256' })
+        .sign(new TextEncoder().encode(TEST_JWT_SECRET));
+      const store = new JwtKeyStore({ JWT_SECRET: TEST_JWT_SECRET, JWT_PRIVATE_KEY: ecPem });
+
+      expect(store.algorithms).toEqual(['ES256']);
+      await expect(jwtVerify(hs256Token, store.getVerificationKey)).rejects.toThrow('HS256 tokens are no longer accepted');
+    });
+
+    it('should accept HS256 only until the migration window ends', async () => {
+      const env = { JWT_SECRET: TEST_JWT_SECRET, JWT_PRIVATE_KEY: ecPem, JWT_HS256_ACCEPT_UNTIL: '2025-02-01T00:00:00Z' };
+      const during = new JwtKeyStore(env, () => Date.parse('2025-01-15T00:00:00Z'));
+      const after = new JwtKeyStore(env, () => Date.parse('2025-02-01T00:00:00Z'));
+
+      expect(during.algorithms).toEqual(['ES256', 'HS256']);
+      expect(after.algorithms).toEqual(['ES256']);
+    });
+
+    it('should reject tokens with an unknown kid', async () => {
+      const store = new JwtKeyStore({ JWT_SECRET: TEST_JWT_SECRET, JWT_PRIVATE_KEY: ecPem });
+
+      await expect(store.getVerificationKey({ alg: 'ES256', kid: 'other-key' })).rejects.toThrow(
+        'Unknown signing key: other-key'
+      );
+    });
+
+    it('should sign with the newest versioned secret and keep verifying older ones', async () => {
+      const before = new JwtKeyStore({ JWT_SECRET: '', JWT_SECRET_V1: FIRST_SECRET });
+      const oldSigning = await before.getSigningKey();
+      const oldToken = await new SignJWT({ userId: '123' })
+        .setProtectedHeader({ alg: oldSigning.alg, kid: oldSigning.kid })
+        .sign(oldSigning.key);
+
+      const rotated = new JwtKeyStore({ JWT_SECRET: '', JWT_SECRET_V1: FIRST_SECRET, JWT_SECRET_V2: SECOND_SECRET });
+      expect((await rotated.getSigningKey()).kid).toBe('v2');
+      await expect(jwtVerify(oldToken, rotated.getVerificationKey)).resolves.toBeDefined();
+
+      const retired = new JwtKeyStore({ JWT_SECRET: '', JWT_SECRET_V2: SECOND_SECRET });
+      await expect(jwtVerify(oldToken, retired.getVerificationKey)).rejects.toThrow('Unknown signing key: v1');
+    });
+
+    it('should require issuer and audience downstream', async () => {
+      const store = new JwtKeyStore({ JWT_SECRET: TEST_JWT_SECRET, JWT_PRIVATE_KEY: ecPem });
+      const signing = await store.getSigningKey();
+      const jwks = createLocalJWKSet(await store.getJwks());
+      const sign = (audience: string) =>
+        new SignJWT({ userId: '123' })
+          .setProtectedHeader({ alg: signing.alg, kid: signing.kid })
+          .setIssuer('https://auth.example.com')
+          .setAudience(audience)
+          .setExpirationTime('5m')
+          .sign(signing.key);
+      const verify = createJwksVerifier(
+        'https://auth.example.com/.well-known/jwks.json',
+        { issuer: 'https://auth.example.com', audience: 'https://billing.example.com' },
+        jwks
+      );
+
+      expect((await verify(await sign('https://billing.example.com'))).userId).toBe('123');
+      await expect(verify(await sign('https://other.example.com'))).rejects.toThrow();
+      expect(() => createJwksVerifier('https://auth.example.com/.well-known/jwks.json', { issuer: '', audience: '' }, jwks))
+        .toThrow('needs an issuer and an audience');
+    });
+
+    it('should serve the JWKS with cache headers', async () => {
+      const response = await handleJwksRequest({ JWT_SECRET: TEST_JWT_SECRET, JWT_PRIVATE_KEY: ecPem });
+
+      expect(response.headers.get('Cache-Control')).toBe('public, max-age=300');
+      expect((await response.json<{ keys: JWK[] }>()).keys).toHaveLength(1);
+    });
+  });
+}
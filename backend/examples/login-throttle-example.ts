@@ -0,0 +1,274 @@
+/**
+ * Login Throttle Example
+ *
+ * Demonstrates brute-force protection for `/auth/login`:
+ * - Per-IP rate limit on all login attempts (fixed window)
+ * - Per-account failure counter with a temporary lockout
+ * - 429 responses with `Retry-After`
+ *
+ * Counters live behind a small `RateLimitStore` interface: KV in production,
+ * in-memory in tests. KV is eventually consistent, so counts are approximate
+ * across locations; implement the interface with a Durable Object if you
+ * need exact limits.
+ *
+ * Account counters are keyed by an HMAC of the email under `BLIND_INDEX_KEY`,
+ * so a leaked KV namespace can't be matched against a list of emails.
+ */
+
+import { authErrorResponse, RateLimitError } from './auth-errors-example';
+import { deriveDataKey, SecretManager } from './secrets-example';
+
+export interface Env {
+  RATE_LIMITS: KVNamespace;
+}
+
+interface Counter {
+  count: number;
+  resetAt: number; // epoch ms
+}
+
+export interface RateLimitStore {
+  get(key: string): Promise<Counter | null>;
+  put(key: string, counter: Counter, ttlSeconds: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * KV Rate Limit Store
+ */
+export class KVRateLimitStore implements RateLimitStore {
+  constructor(private kv: KVNamespace) {}
+
+  async get(key: string): Promise<Counter | null> {
+    const data = await this.kv.get(key);
+    return data ? JSON.parse(data) : null;
+  }
+
+  async put(key: string, counter: Counter, ttlSeconds: number): Promise<void> {
+    // KV rejects TTLs under 60 seconds
+    await this.kv.put(key, JSON.stringify(counter), { expirationTtl: Math.max(60, ttlSeconds) });
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.kv.delete(key);
+  }
+}
+
+/**
+ * In-Memory Rate Limit Store (tests and local development)
+ */
+export class InMemoryRateLimitStore implements RateLimitStore {
+  private counters = new Map<string, Counter>();
+
+  async get(key: string): Promise<Counter | null> {
+    return this.counters.get(key) ?? null;
+  }
+
+  async put(key: string, counter: Counter): Promise<void> {
+    this.counters.set(key, counter);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.counters.delete(key);
+  }
+}
+
+export interface LoginThrottleOptions {
+  maxAttemptsPerIp: number;
+  ipWindowSeconds: number;
+  maxFailuresPerAccount: number;
+  failureWindowSeconds: number;
+  lockoutSeconds: number;
+}
+
+export const DEFAULT_LOGIN_THROTTLE: LoginThrottleOptions = {
+  maxAttemptsPerIp: 20,
+  ipWindowSeconds: 15 * 60,
+  maxFailuresPerAccount: 5,
+  failureWindowSeconds: 15 * 60,
+  lockoutSeconds: 15 * 60,
+};
+
+export type ThrottleDecision =
+  | { allowed: true }
+  | { allowed: false; reason: 'ip_rate_limited' | 'account_locked'; retryAfter: number };
+
+/**
+ * Login Throttle
+ */
+export class LoginThrottle {
+  constructor(
+    private store: RateLimitStore,
+    private secrets: SecretManager,
+    private options: LoginThrottleOptions = DEFAULT_LOGIN_THROTTLE,
+    private now: () => number = Date.now
+  ) {}
+
+  /**
+   * Count an attempt and decide whether it may proceed
+   */
+  async check(ip: string, email: string): Promise<ThrottleDecision> {
+    const account = await this.accountKey(email);
+    const lock = await this.store.get(`login:lock:${account}`);
+
+    if (lock && lock.resetAt > this.now()) {
+      return { allowed: false, reason: 'account_locked', retryAfter: this.secondsUntil(lock.resetAt) };
+    }
+
+    const attempts = await this.increment(`login:ip:${ip}`, this.options.ipWindowSeconds);
+
+    if (attempts.count > this.options.maxAttemptsPerIp) {
+      return { allowed: false, reason: 'ip_rate_limited', retryAfter: this.secondsUntil(attempts.resetAt) };
+    }
+
+    return { allowed: true };
+  }
+
+  /**
+   * Record a failed password check; locks the account after too many
+   */
+  async recordFailure(email: string): Promise<void> {
+    const account = await this.accountKey(email);
+    const failures = await this.increment(`login:fail:${account}`, this.options.failureWindowSeconds);
+
+    if (failures.count >= this.options.maxFailuresPerAccount) {
+      const resetAt = this.now() + this.options.lockoutSeconds * 1000;
+
+      await this.store.put(`login:lock:${account}`, { count: failures.count, resetAt }, this.options.lockoutSeconds);
+      await this.store.delete(`login:fail:${account}`);
+
+      // No account identifier: even the keyed hash would link log lines to a user
+      console.warn('Account locked after repeated login failures', {
+        failures: failures.count,
+        lockedUntil: new Date(resetAt).toISOString(),
+      });
+    }
+  }
+
+  /**
+   * Clear the failure counter after a successful login
+   */
+  async recordSuccess(email: string): Promise<void> {
+    await this.store.delete(`login:fail:${await this.accountKey(email)}`);
+  }
+
+  /**
+   * HMAC of the normalized email, so KV keys carry no PII
+   */
+  private async accountKey(email: string): Promise<string> {
+    const key = await deriveDataKey(this.secrets.getBlindIndexKey(), 'login-throttle', ['sign']);
+    const normalized = (email ?? '').toLowerCase().trim();
+    const mac = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(normalized));
+
+    return [...new Uint8Array(mac)]
+      .slice(0, 16)
+      .map((byte) => byte.toString(16).padStart(2, '0'))
+      .join('');
+  }
+
+  private async increment(key: string, windowSeconds: number): Promise<Counter> {
+    const now = this.now();
+    const existing = await this.store.get(key);
+
+    const counter =
+      existing && existing.resetAt > now
+        ? { count: existing.count + 1, resetAt: existing.resetAt }
+        : { count: 1, resetAt: now + windowSeconds * 1000 };
+
+    await this.store.put(key, counter, this.secondsUntil(counter.resetAt));
+    return counter;
+  }
+
+  private secondsUntil(epochMs: number): number {
+    return Math.max(1, Math.ceil((epochMs - this.now()) / 1000));
+  }
+}
+
+/**
+ * Build the 429 response for a throttled login
+ */
+export function tooManyAttempts(retryAfter: number): Response {
+  return authErrorResponse(new RateLimitError('Too many login attempts', retryAfter));
+}
+
+/**
+ * Testing
+ */
+if (import.meta.vitest) {
+  const { describe, it, expect, beforeEach, vi } = import.meta.vitest;
+
+  describe('LoginThrottle', () => {
+    const secrets = new SecretManager({ BLIND_INDEX_KEY: 'Xw2R0f7nTVuYYZsNB+vUwJqD2fMHVZJ4EfuMfp3HH/M=' });
+    const options = { ...DEFAULT_LOGIN_THROTTLE, maxAttemptsPerIp: 3, maxFailuresPerAccount: 2 };
+    let clock: number;
+    let store: InMemoryRateLimitStore;
+    let throttle: LoginThrottle;
+
+    beforeEach(() => {
+      clock = Date.parse('2025-01-01T00:00:00Z');
+      store = new InMemoryRateLimitStore();
+      throttle = new LoginThrottle(store, secrets, options, () => clock);
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    it('should allow attempts under the IP limit', async () => {
+      expect(await throttle.check('1.2.3.4', 'a@example.com')).toEqual({ allowed: true });
+    });
+
+    it('should rate limit an IP across different accounts', async () => {
+      await throttle.check('1.2.3.4', 'a@example.com');
+      await throttle.check('1.2.3.4', 'b@example.com');
+      await throttle.check('1.2.3.4', 'c@example.com');
+
+      const decision = await throttle.check('1.2.3.4', 'd@example.com');
+      expect(decision).toMatchObject({ allowed: false, reason: 'ip_rate_limited', retryAfter: 900 });
+    });
+
+    it('should reset the IP window after it expires', async () => {
+      for (let i = 0; i < 4; i++) {
+        await throttle.check('1.2.3.4', 'a@example.com');
+      }
+
+      clock += 15 * 60 * 1000;
+      expect(await throttle.check('1.2.3.4', 'a@example.com')).toEqual({ allowed: true });
+    });
+
+    it('should lock the account after repeated failures and log it', async () => {
+      await throttle.recordFailure('a@example.com');
+      await throttle.recordFailure('A@Example.com');
+
+      const decision = await throttle.check('5.6.7.8', 'a@example.com');
+      expect(decision).toMatchObject({ allowed: false, reason: 'account_locked' });
+      expect(console.warn).toHaveBeenCalledWith('Account locked after repeated login failures', expect.any(Object));
+      expect(JSON.stringify(vi.mocked(console.warn).mock.calls)).not.toContain('example.com');
+      expect(vi.mocked(console.warn).mock.calls[0][1]).not.toHaveProperty('account');
+
+      clock += 15 * 60 * 1000;
+      expect(await throttle.check('5.6.7.8', 'a@example.com')).toEqual({ allowed: true });
+    });
+
+    it('should clear failures after a successful login', async () => {
+      await throttle.recordFailure('a@example.com');
+      await throttle.recordSuccess('a@example.com');
+      await throttle.recordFailure('a@example.com');
+
+      expect(await throttle.check('5.6.7.8', 'a@example.com')).toEqual({ allowed: true });
+    });
+
+    it('should key account counters by a keyed hash, not a plain one', async () => {
+      const otherSecrets = new SecretManager({ BLIND_INDEX_KEY: 'qF3n2VYo0bJmTQ9sWc5xUeR7hKdA1gLpZt8yNvC4iMw=' });
+      const other = new LoginThrottle(store, otherSecrets, options, () => clock);
+      await throttle.recordFailure('a@example.com');
+      await throttle.recordFailure('a@example.com');
+
+      expect(await other.check('5.6.7.8', 'a@example.com')).toEqual({ allowed: true });
+    });
+
+    it('should build a 429 with Retry-After', () => {
+      const response = tooManyAttempts(120);
+
+      expect(response.status).toBe(429);
+      expect(response.headers.get('Retry-After')).toBe('120');
+    });
+  });
+}
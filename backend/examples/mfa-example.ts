@@ -0,0 +1,480 @@
+/**
+ * Multi-Factor Authentication Example
+ *
+ * Demonstrates TOTP (RFC 6238) second factors for Cloudflare Workers:
+ * - TOTP codes via Web Crypto HMAC-SHA1 (works with any authenticator app)
+ * - Enrollment with an `otpauth://` URI, confirmed by a first valid code
+ * - Hashed one-time recovery codes
+ * - Replay protection (each time step is accepted once)
+ *
+ * The two-step login (`mfa_pending` token → `/auth/mfa/verify`) lives in
+ * `auth-middleware-example.ts`.
+ */
+
+import { ColumnCodec, MFA_ENROLLMENT_SCHEMA, type ColumnCodecKeys, type Row } from './encrypted-columns-example';
+import { parseEnvelope } from './secrets-example';
+
+export type Env = ColumnCodecKeys & {
+  DB: D1Database;
+};
+
+export interface MfaEnrollment {
+  userId: string;
+  secret: string; // base32
+  confirmed: boolean;
+  recoveryCodeHashes: string[];
+  lastUsedStep: number;
+}
+
+/**
+ * Storage backend for MFA enrollments
+ */
+export interface MfaStore {
+  get(userId: string): Promise<MfaEnrollment | null>;
+  save(enrollment: MfaEnrollment): Promise<void>;
+  delete(userId: string): Promise<void>;
+}
+
+/**
+ * D1 MFA Store
+ *
+ * The TOTP secret is as sensitive as a password hash and can't be hashed
+ * (the server needs it to compute codes), so it is stored encrypted with
+ * `MFA_ENROLLMENT_SCHEMA` (see `encrypted-columns-example.ts`). Secrets
+ * stored before that are read as they are and encrypted at the next save
+ * (every successful verification saves).
+ *
+ * Migration (migrations/0003_create_mfa.sql):
+ * ```sql
+ * CREATE TABLE mfa_enrollments (
+ *   user_id TEXT PRIMARY KEY REFERENCES users(id),
+ *   secret TEXT NOT NULL, -- ciphertext
+ *   confirmed INTEGER NOT NULL DEFAULT 0,
+ *   recovery_code_hashes TEXT NOT NULL, -- JSON array
+ *   last_used_step INTEGER NOT NULL DEFAULT 0
+ * );
+ * ```
+ */
+export class D1MfaStore implements MfaStore {
+  private codec: ColumnCodec<MfaEnrollment>;
+
+  constructor(private db: D1Database, env: ColumnCodecKeys) {
+    this.codec = new ColumnCodec(MFA_ENROLLMENT_SCHEMA, env);
+  }
+
+  async get(userId: string): Promise<MfaEnrollment | null> {
+    const row = await this.db.prepare('SELECT * FROM mfa_enrollments WHERE user_id = ?').bind(userId).first<Row>();
+
+    if (!row) {
+      return null;
+    }
+
+    // Plaintext base32 secret, stored before secrets were encrypted
+    const legacySecret = parseEnvelope(String(row.secret)) ? null : String(row.secret);
+    const enrollment = await this.codec.decode(legacySecret ? { ...row, secret: null } : row);
+
+    return {
+      ...enrollment,
+      secret: legacySecret ?? enrollment.secret,
+      confirmed: row.confirmed === 1,
+      recoveryCodeHashes: JSON.parse(String(row.recovery_code_hashes)),
+    };
+  }
+
+  async save(enrollment: MfaEnrollment): Promise<void> {
+    const row = await this.codec.encode(enrollment);
+
+    await this.db
+      .prepare(
+        'INSERT INTO mfa_enrollments (user_id, secret, confirmed, recovery_code_hashes, last_used_step) ' +
+        'VALUES (?, ?, ?, ?, ?) ' +
+        'ON CONFLICT(user_id) DO UPDATE SET secret = excluded.secret, confirmed = excluded.confirmed, ' +
+        'recovery_code_hashes = excluded.recovery_code_hashes, last_used_step = excluded.last_used_step'
+      )
+      .bind(
+        enrollment.userId,
+        row.secret,
+        enrollment.confirmed ? 1 : 0,
+        JSON.stringify(enrollment.recoveryCodeHashes),
+        enrollment.lastUsedStep
+      )
+      .run();
+  }
+
+  async delete(userId: string): Promise<void> {
+    await this.db.prepare('DELETE FROM mfa_enrollments WHERE user_id = ?').bind(userId).run();
+  }
+}
+
+/**
+ * In-Memory MFA Store (tests and local development)
+ */
+export class InMemoryMfaStore implements MfaStore {
+  private enrollments = new Map<string, MfaEnrollment>();
+
+  async get(userId: string): Promise<MfaEnrollment | null> {
+    const enrollment = this.enrollments.get(userId);
+    return enrollment ? { ...enrollment, recoveryCodeHashes: [...enrollment.recoveryCodeHashes] } : null;
+  }
+
+  async save(enrollment: MfaEnrollment): Promise<void> {
+    this.enrollments.set(enrollment.userId, { ...enrollment });
+  }
+
+  async delete(userId: string): Promise<void> {
+    this.enrollments.delete(userId);
+  }
+}
+
+const TOTP_STEP_SECONDS = 30;
+const TOTP_DIGITS = 6;
+const RECOVERY_CODE_COUNT = 10;
+
+/**
+ * MFA Service
+ */
+export class MfaService {
+  constructor(
+    private store: MfaStore,
+    private issuer = 'mjs76',
+    private now: () => number = Date.now
+  ) {}
+
+  /**
+   * Start enrollment: returns the secret and an otpauth:// URI for a QR code.
+   * MFA is not enforced until `confirmEnrollment` succeeds.
+   */
+  async beginEnrollment(userId: string, accountName: string): Promise<{ secret: string; otpauthUri: string }> {
+    const existing = await this.store.get(userId);
+
+    if (existing?.confirmed) {
+      throw new Error('MFA is already enabled');
+    }
+
+    const secret = base32Encode(crypto.getRandomValues(new Uint8Array(20)));
+    await this.store.save({ userId, secret, confirmed: false, recoveryCodeHashes: [], lastUsedStep: 0 });
+
+    const label = encodeURIComponent(`${this.issuer}:${accountName}`);
+    const otpauthUri =
+      `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(this.issuer)}` +
+      `&algorithm=SHA1&digits=${TOTP_DIGITS}&period=${TOTP_STEP_SECONDS}`;
+
+    return { secret, otpauthUri };
+  }
+
+  /**
+   * Confirm enrollment with a first code; returns the recovery codes (shown once)
+   */
+  async confirmEnrollment(userId: string, code: string): Promise<string[] | null> {
+    const enrollment = await this.store.get(userId);
+
+    if (!enrollment || enrollment.confirmed) {
+      return null;
+    }
+
+    const step = await this.matchTotp(enrollment, code);
+
+    if (step === null) {
+      return null;
+    }
+
+    const recoveryCodes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+
+    await this.store.save({
+      ...enrollment,
+      confirmed: true,
+      lastUsedStep: step,
+      recoveryCodeHashes: await Promise.all(recoveryCodes.map(hashRecoveryCode)),
+    });
+
+    return recoveryCodes;
+  }
+
+  /**
+   * Whether the user must pass a second factor at login
+   */
+  async isEnrolled(userId: string): Promise<boolean> {
+    const enrollment = await this.store.get(userId);
+    return !!enrollment?.confirmed;
+  }
+
+  /**
+   * Verify a TOTP or recovery code. Each succeeds at most once.
+   */
+  async verify(userId: string, code: string): Promise<'totp' | 'recovery' | null> {
+    const enrollment = await this.store.get(userId);
+
+    if (!enrollment?.confirmed) {
+      return null;
+    }
+
+    const step = await this.matchTotp(enrollment, code);
+
+    if (step !== null) {
+      await this.store.save({ ...enrollment, lastUsedStep: step });
+      return 'totp';
+    }
+
+    const hash = await hashRecoveryCode(code);
+    const index = enrollment.recoveryCodeHashes.indexOf(hash);
+
+    if (index !== -1) {
+      enrollment.recoveryCodeHashes.splice(index, 1);
+      await this.store.save(enrollment);
+      return 'recovery';
+    }
+
+    return null;
+  }
+
+  /**
+   * Find the time step a code belongs to (±1 step for clock drift),
+   * rejecting steps at or before the last one used
+   */
+  private async matchTotp(enrollment: MfaEnrollment, code: string): Promise<number | null> {
+    if (!/^\d{6}$/.test(code)) {
+      return null;
+    }
+
+    const current = Math.floor(this.now() / 1000 / TOTP_STEP_SECONDS);
+
+    for (const step of [current - 1, current, current + 1]) {
+      if (step <= enrollment.lastUsedStep) {
+        continue;
+      }
+
+      if ((await hotp(enrollment.secret, step)) === code) {
+        return step;
+      }
+    }
+
+    return null;
+  }
+}
+
+/**
+ * Compute a TOTP code for a base32 secret at a given time
+ */
+export async function totp(secret: string, timeMs: number): Promise<string> {
+  return hotp(secret, Math.floor(timeMs / 1000 / TOTP_STEP_SECONDS));
+}
+
+/**
+ * HOTP (RFC 4226) with HMAC-SHA1
+ */
+async function hotp(secret: string, counter: number): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    base32Decode(secret),
+    { name: 'HMAC', hash: 'SHA-1' },
+    false,
+    ['sign']
+  );
+
+  const message = new DataView(new ArrayBuffer(8));
+  message.setUint32(0, Math.floor(counter / 2 ** 32));
+  message.setUint32(4, counter >>> 0);
+
+  const digest = new Uint8Array(await crypto.subtle.sign('HMAC', key, message.buffer));
+  const offset = digest[digest.length - 1] & 0x0f;
+  const binary =
+    ((digest[offset] & 0x7f) << 24) |
+    (digest[offset + 1] << 16) |
+    (digest[offset + 2] << 8) |
+    digest[offset + 3];
+
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+}
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export function base32Encode(bytes: Uint8Array): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+export function base32Decode(input: string): Uint8Array {
+  const clean = input.toUpperCase().replace(/=+$/, '');
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+
+    if (index === -1) {
+      throw new Error('Invalid base32 character');
+    }
+
+    value = (value << 5) | index;
+    bits += 5;
+
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+
+  return new Uint8Array(bytes);
+}
+
+function generateRecoveryCode(): string {
+  const raw = base32Encode(crypto.getRandomValues(new Uint8Array(5))).toLowerCase();
+  return `${raw.slice(0, 4)}-${raw.slice(4, 8)}`;
+}
+
+async function hashRecoveryCode(code: string): Promise<string> {
+  const normalized = code.toLowerCase().replace(/[^a-z2-7]/g, '');
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(normalized));
+
+  return btoa(String.fromCharCode(...new Uint8Array(digest)));
+}
+
+/**
+ * Testing
+ */
+if (import.meta.vitest) {
+  const { describe, it, expect, beforeEach } = import.meta.vitest;
+
+  describe('TOTP', () => {
+    // RFC 6238 Appendix B test secret ("12345678901234567890"), truncated to 6 digits
+    const secret = base32Encode(new TextEncoder().encode('12345678901234567890'));
+
+    it('should match the RFC 6238 test vectors', async () => {
+      expect(await totp(secret, 59 * 1000)).toBe('287082');
+      expect(await totp(secret, 1111111109 * 1000)).toBe('081804');
+      expect(await totp(secret, 2000000000 * 1000)).toBe('279037');
+    });
+
+    it('should round-trip base32', () => {
+      const bytes = crypto.getRandomValues(new Uint8Array(20));
+      expect(base32Decode(base32Encode(bytes))).toEqual(bytes);
+    });
+  });
+
+  describe('D1MfaStore', () => {
+    // Just enough D1 for one row: the statement's bound values become the row
+    const createDb = () => {
+      let row: Row | null = null;
+      const db = {
+        prepare: (query: string) => ({
+          bind: (...values: unknown[]) => ({
+            first: async () => row,
+            run: async () => {
+              const [user_id, secret, confirmed, recovery_code_hashes, last_used_step] = values;
+              row = query.startsWith('INSERT') ? { user_id, secret, confirmed, recovery_code_hashes, last_used_step } : null;
+            },
+          }),
+        }),
+      };
+
+      return { db: db as unknown as D1Database, row: () => row };
+    };
+
+    // openssl rand -base64 32
+    const env = { ENCRYPTION_KEY_V1: 'WogFF/kyhKg4pu3WS5R9tPC+mfuaumGy3gteyG21gNQ=' };
+    const enrollment: MfaEnrollment = {
+      userId: '123',
+      secret: 'JBSWY3DPEHPK3PXP',
+      confirmed: true,
+      recoveryCodeHashes: ['hash'],
+      lastUsedStep: 7,
+    };
+
+    it('should store the secret encrypted', async () => {
+      const { db, row } = createDb();
+      const store = new D1MfaStore(db, env);
+
+      await store.save(enrollment);
+
+      expect(String(row()?.secret)).not.toContain(enrollment.secret);
+      expect(await store.get('123')).toEqual(enrollment);
+    });
+
+    it('should read secrets stored before encryption and encrypt them on save', async () => {
+      const { db, row } = createDb();
+      const store = new D1MfaStore(db, env);
+
+      await db.prepare('INSERT').bind('123', enrollment.secret, 1, '["hash"]', 7).run();
+      expect(await store.get('123')).toEqual(enrollment);
+
+      await store.save((await store.get('123'))!);
+      expect(String(row()?.secret)).not.toContain(enrollment.secret);
+    });
+  });
+
+  describe('MfaService', () => {
+    let clock: number;
+    let service: MfaService;
+
+    beforeEach(() => {
+      clock = Date.parse('2025-01-01T00:00:00Z');
+      service = new MfaService(new InMemoryMfaStore(), 'mjs76', () => clock);
+    });
+
+    const enroll = async () => {
+      const { secret } = await service.beginEnrollment('123', 'test@example.com');
+      const recoveryCodes = await service.confirmEnrollment('123', await totp(secret, clock));
+      clock += 30_000;
+      return { secret, recoveryCodes: recoveryCodes! };
+    };
+
+    it('should not enforce MFA until enrollment is confirmed', async () => {
+      const { otpauthUri } = await service.beginEnrollment('123', 'test@example.com');
+
+      expect(otpauthUri).toMatch(/^otpauth:\/\/totp\/mjs76%3Atest%40example\.com\?secret=/);
+      expect(await service.isEnrolled('123')).toBe(false);
+    });
+
+    it('should issue recovery codes on confirmation', async () => {
+      const { recoveryCodes } = await enroll();
+
+      expect(recoveryCodes).toHaveLength(10);
+      expect(await service.isEnrolled('123')).toBe(true);
+    });
+
+    it('should accept a current code once', async () => {
+      const { secret } = await enroll();
+      const code = await totp(secret, clock);
+
+      expect(await service.verify('123', code)).toBe('totp');
+      expect(await service.verify('123', code)).toBeNull();
+    });
+
+    it('should tolerate one step of clock drift', async () => {
+      const { secret } = await enroll();
+
+      expect(await service.verify('123', await totp(secret, clock + 30_000))).toBe('totp');
+    });
+
+    it('should accept each recovery code once', async () => {
+      const { recoveryCodes } = await enroll();
+
+      expect(await service.verify('123', recoveryCodes[0].toUpperCase())).toBe('recovery');
+      expect(await service.verify('123', recoveryCodes[0])).toBeNull();
+    });
+
+    it('should reject wrong codes', async () => {
+      await enroll();
+
+      expect(await service.verify('123', '000000')).toBeNull();
+    });
+  });
+}
@@ -0,0 +1,544 @@
+/**
+ * OpenID Connect Login Example
+ *
+ * Demonstrates "Sign in with <provider>" for Cloudflare Workers:
+ * - Authorization code flow with PKCE (S256), provider-agnostic
+ * - `state`, `nonce` and the PKCE verifier kept in KV, single-use
+ * - `state` bound to the browser that started the login with a `__Host-`
+ *   cookie, so an attacker can't finish their own login in a victim's browser
+ * - ID token validation (signature via JWKS, issuer, audience, nonce)
+ * - Identities linked to local users by provider + subject, or by verified email
+ *
+ * The routes (`/auth/oidc/:provider/start` and `/callback`) live in
+ * `auth-middleware-example.ts` and finish with the usual token pair.
+ *
+ * Works with any OIDC provider (Google, Microsoft, Auth0, Okta, ...).
+ * GitHub is plain OAuth 2.0 without ID tokens and needs its own adapter.
+ */
+
+import {
+  createLocalJWKSet,
+  createRemoteJWKSet,
+  exportJWK,
+  generateKeyPair,
+  jwtVerify,
+  SignJWT,
+  type JWTVerifyGetKey,
+} from 'jose';
+import { AuthenticationError } from './auth-errors-example';
+
+export interface Env {
+  DB: D1Database;
+  OIDC_STATE: KVNamespace;
+  GOOGLE_CLIENT_ID?: string;
+  GOOGLE_CLIENT_SECRET?: string;
+}
+
+export interface OidcProviderConfig {
+  id: string;
+  issuer: string;
+  authorizationEndpoint: string;
+  tokenEndpoint: string;
+  jwksUri: string;
+  clientId: string;
+  clientSecret?: string;
+  redirectUri: string;
+  scopes?: string[];
+}
+
+export interface OidcIdentity {
+  provider: string;
+  subject: string;
+  email: string | null;
+  emailVerified: boolean;
+}
+
+interface PendingAuthorization {
+  nonce: string;
+  codeVerifier: string;
+}
+
+export class OidcError extends AuthenticationError {
+  constructor(message: string, status = 401) {
+    super(message, 'external_login_failed', status);
+    this.name = 'OidcError';
+  }
+}
+
+/**
+ * Providers configured for this deployment. Add a provider by adding its
+ * endpoints here (or with `discoverProvider`) and its client credentials as
+ * secrets.
+ */
+export function oidcProviders(env: Env, origin: string): Record<string, OidcProviderConfig> {
+  const providers: Record<string, OidcProviderConfig> = {};
+
+  if (env.GOOGLE_CLIENT_ID) {
+    providers.google = {
+      id: 'google',
+      issuer: 'https://accounts.google.com',
+      authorizationEndpoint: 'https://accounts.google.com/o/oauth2/v2/auth',
+      tokenEndpoint: 'https://oauth2.googleapis.com/token',
+      jwksUri: 'https://www.googleapis.com/oauth2/v3/certs',
+      clientId: env.GOOGLE_CLIENT_ID,
+      clientSecret: env.GOOGLE_CLIENT_SECRET,
+      redirectUri: new URL('/auth/oidc/google/callback', origin).toString(),
+    };
+  }
+
+  return providers;
+}
+
+/**
+ * Build a provider config from its discovery document
+ */
+export async function discoverProvider(
+  issuer: string,
+  client: Pick<OidcProviderConfig, 'id' | 'clientId' | 'clientSecret' | 'redirectUri' | 'scopes'>,
+  fetchFn: typeof fetch = fetch
+): Promise<OidcProviderConfig> {
+  const response = await fetchFn(`${issuer.replace(/\/$/, '')}/.well-known/openid-configuration`);
+
+  if (!response.ok) {
+    throw new OidcError(`Discovery failed for ${issuer}`, 502);
+  }
+
+  const metadata = await response.json<{
+    issuer: string;
+    authorization_endpoint: string;
+    token_endpoint: string;
+    jwks_uri: string;
+  }>();
+
+  return {
+    ...client,
+    issuer: metadata.issuer,
+    authorizationEndpoint: metadata.authorization_endpoint,
+    tokenEndpoint: metadata.token_endpoint,
+    jwksUri: metadata.jwks_uri,
+  };
+}
+
+export const OIDC_STATE_COOKIE = '__Host-oidc-state';
+
+/**
+ * Set-Cookie value holding a login's state, or clearing it (`null`). Lax,
+ * so it is sent on the provider's top-level redirect back to the callback.
+ */
+export function oidcStateCookie(state: string | null): string {
+  const maxAge = state === null ? 0 : OidcClient.STATE_TTL_SECONDS;
+  return `${OIDC_STATE_COOKIE}=${state ?? ''}; Path=/; Secure; HttpOnly; SameSite=Lax; Max-Age=${maxAge}`;
+}
+
+/**
+ * The state cookie sent with a callback, if any
+ */
+export function readOidcStateCookie(request: Request): string | null {
+  for (const pair of (request.headers.get('Cookie') ?? '').split(';')) {
+    const [name, ...value] = pair.trim().split('=');
+
+    if (name === OIDC_STATE_COOKIE) {
+      return value.join('=') || null;
+    }
+  }
+
+  return null;
+}
+
+// Remote key sets are cached per isolate, like verified keys in jwt-keys-example.ts
+const jwksCache = new Map<string, JWTVerifyGetKey>();
+
+/**
+ * OIDC Client (authorization code + PKCE)
+ */
+export class OidcClient {
+  static readonly STATE_TTL_SECONDS = 10 * 60;
+
+  private fetch: typeof fetch;
+  private jwks: JWTVerifyGetKey;
+
+  constructor(
+    private provider: OidcProviderConfig,
+    private kv: KVNamespace,
+    options: { fetch?: typeof fetch; jwks?: JWTVerifyGetKey } = {}
+  ) {
+    this.fetch = options.fetch ?? fetch;
+    this.jwks = options.jwks ?? remoteJwks(provider.jwksUri);
+  }
+
+  /**
+   * Start a login: store state/nonce/verifier and return the provider URL,
+   * and the state to bind to the browser (`oidcStateCookie`)
+   */
+  async createAuthorization(): Promise<{ url: string; state: string }> {
+    const state = randomString();
+    const pending: PendingAuthorization = { nonce: randomString(), codeVerifier: randomString() };
+
+    await this.kv.put(this.stateKey(state), JSON.stringify(pending), {
+      expirationTtl: OidcClient.STATE_TTL_SECONDS,
+    });
+
+    const url = new URL(this.provider.authorizationEndpoint);
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('client_id', this.provider.clientId);
+    url.searchParams.set('redirect_uri', this.provider.redirectUri);
+    url.searchParams.set('scope', (this.provider.scopes ?? ['openid', 'email', 'profile']).join(' '));
+    url.searchParams.set('state', state);
+    url.searchParams.set('nonce', pending.nonce);
+    url.searchParams.set('code_challenge', await codeChallenge(pending.codeVerifier));
+    url.searchParams.set('code_challenge_method', 'S256');
+
+    return { url: url.toString(), state };
+  }
+
+  /**
+   * Finish a login from the provider's redirect back to us. `browserState`
+   * is the state cookie the callback request carried.
+   */
+  async handleCallback(callbackUrl: URL, browserState: string | null): Promise<OidcIdentity> {
+    const error = callbackUrl.searchParams.get('error');
+    const code = callbackUrl.searchParams.get('code');
+    const state = callbackUrl.searchParams.get('state');
+
+    if (error) {
+      throw new OidcError(`Provider returned an error: ${error}`);
+    }
+
+    if (!code || !state) {
+      throw new OidcError('Missing code or state', 400);
+    }
+
+    // Login CSRF: the callback must come back to the browser that started the login
+    if (state !== browserState) {
+      throw new OidcError('State does not match this browser');
+    }
+
+    // State is single-use: a replayed callback finds nothing
+    const data = await this.kv.get(this.stateKey(state));
+
+    if (!data) {
+      throw new OidcError('Unknown or expired state');
+    }
+
+    await this.kv.delete(this.stateKey(state));
+
+    const pending: PendingAuthorization = JSON.parse(data);
+    const idToken = await this.exchangeCode(code, pending.codeVerifier);
+
+    return this.validateIdToken(idToken, pending.nonce);
+  }
+
+  private async exchangeCode(code: string, codeVerifier: string): Promise<string> {
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: this.provider.redirectUri,
+      client_id: this.provider.clientId,
+      code_verifier: codeVerifier,
+    });
+
+    if (this.provider.clientSecret) {
+      body.set('client_secret', this.provider.clientSecret);
+    }
+
+    const response = await this.fetch(this.provider.tokenEndpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded', 'Accept': 'application/json' },
+      body,
+    });
+
+    if (!response.ok) {
+      throw new OidcError('Token exchange failed');
+    }
+
+    const { id_token: idToken } = await response.json<{ id_token?: string }>();
+
+    if (!idToken) {
+      throw new OidcError('Provider did not return an ID token');
+    }
+
+    return idToken;
+  }
+
+  private async validateIdToken(idToken: string, nonce: string): Promise<OidcIdentity> {
+    let claims: Record<string, unknown>;
+
+    try {
+      ({ payload: claims } = await jwtVerify(idToken, this.jwks, {
+        issuer: this.provider.issuer,
+        audience: this.provider.clientId,
+        algorithms: ['RS256', 'ES256'],
+      }));
+    } catch (error) {
+      throw new OidcError('Invalid ID token');
+    }
+
+    if (claims.nonce !== nonce || typeof claims.sub !== 'string') {
+      throw new OidcError('Invalid ID token');
+    }
+
+    return {
+      provider: this.provider.id,
+      subject: claims.sub,
+      email: typeof claims.email === 'string' ? claims.email : null,
+      emailVerified: claims.email_verified === true,
+    };
+  }
+
+  private stateKey(state: string): string {
+    return `oidc-state:${this.provider.id}:${state}`;
+  }
+}
+
+/**
+ * Links external identities (provider + subject) to local user IDs
+ */
+export interface IdentityStore {
+  findUserId(provider: string, subject: string): Promise<string | null>;
+  link(provider: string, subject: string, userId: string): Promise<void>;
+}
+
+/**
+ * D1 Identity Store
+ *
+ * Migration (migrations/0004_create_identities.sql):
+ * ```sql
+ * CREATE TABLE identities (
+ *   provider TEXT NOT NULL,
+ *   subject TEXT NOT NULL,
+ *   user_id TEXT NOT NULL REFERENCES users(id),
+ *   created_at TEXT NOT NULL,
+ *   PRIMARY KEY (provider, subject)
+ * );
+ * ```
+ */
+export class D1IdentityStore implements IdentityStore {
+  constructor(private db: D1Database) {}
+
+  async findUserId(provider: string, subject: string): Promise<string | null> {
+    return this.db
+      .prepare('SELECT user_id FROM identities WHERE provider = ? AND subject = ?')
+      .bind(provider, subject)
+      .first<string>('user_id');
+  }
+
+  async link(provider: string, subject: string, userId: string): Promise<void> {
+    await this.db
+      .prepare('INSERT OR IGNORE INTO identities (provider, subject, user_id, created_at) VALUES (?, ?, ?, ?)')
+      .bind(provider, subject, userId, new Date().toISOString())
+      .run();
+  }
+}
+
+/**
+ * In-Memory Identity Store (tests and local development)
+ */
+export class InMemoryIdentityStore implements IdentityStore {
+  private links = new Map<string, string>();
+
+  async findUserId(provider: string, subject: string): Promise<string | null> {
+    return this.links.get(`${provider}:${subject}`) ?? null;
+  }
+
+  async link(provider: string, subject: string, userId: string): Promise<void> {
+    if (!this.links.has(`${provider}:${subject}`)) {
+      this.links.set(`${provider}:${subject}`, userId);
+    }
+  }
+}
+
+function remoteJwks(jwksUri: string): JWTVerifyGetKey {
+  let jwks = jwksCache.get(jwksUri);
+
+  if (!jwks) {
+    jwks = createRemoteJWKSet(new URL(jwksUri));
+    jwksCache.set(jwksUri, jwks);
+  }
+
+  return jwks;
+}
+
+async function codeChallenge(verifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier));
+  return base64Url(new Uint8Array(digest));
+}
+
+function randomString(): string {
+  return base64Url(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+function base64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+/**
+ * A fake OIDC provider for tests: remembers the challenge and nonce from the
+ * authorization URL and signs ID tokens at its token endpoint.
+ */
+export async function createFakeProvider(claims: Record<string, unknown> = {}) {
+  const { privateKey, publicKey } = await generateKeyPair('RS256');
+  const jwks = createLocalJWKSet({ keys: [{ ...(await exportJWK(publicKey)), kid: 'fake-1', alg: 'RS256' }] });
+
+  const config: OidcProviderConfig = {
+    id: 'fake',
+    issuer: 'https://idp.example.com',
+    authorizationEndpoint: 'https://idp.example.com/authorize',
+    tokenEndpoint: 'https://idp.example.com/token',
+    jwksUri: 'https://idp.example.com/jwks',
+    clientId: 'client-123',
+    clientSecret: 'client-secret',
+    redirectUri: 'https://app.example.com/auth/oidc/fake/callback',
+  };
+
+  const issued = new Map<string, { challenge: string; nonce: string }>();
+
+  /** Simulate the user approving the login; returns the redirect back to us */
+  const authorize = (authorizationUrl: string): URL => {
+    const url = new URL(authorizationUrl);
+    const code = randomString();
+
+    issued.set(code, {
+      challenge: url.searchParams.get('code_challenge')!,
+      nonce: url.searchParams.get('nonce')!,
+    });
+
+    const callback = new URL(url.searchParams.get('redirect_uri')!);
+    callback.searchParams.set('code', code);
+    callback.searchParams.set('state', url.searchParams.get('state')!);
+    return callback;
+  };
+
+  const fetchFn = (async (input: RequestInfo | URL, init?: RequestInit) => {
+    const form = new URLSearchParams(init?.body as URLSearchParams);
+    const grant = issued.get(form.get('code') ?? '');
+    issued.delete(form.get('code') ?? '');
+
+    if (
+      String(input) !== config.tokenEndpoint ||
+      !grant ||
+      (await codeChallenge(form.get('code_verifier') ?? '')) !== grant.challenge
+    ) {
+      return new Response(JSON.stringify({ error: 'invalid_grant' }), { status: 400 });
+    }
+
+    const idToken = await new SignJWT({
+      nonce: grant.nonce,
+      email: 'person@example.com',
+      email_verified: true,
+      ...claims,
+    })
+      .setProtectedHeader({ alg: 'RS256', kid: 'fake-1' })
+      .setIssuer(config.issuer)
+      .setAudience(config.clientId)
+      .setSubject('fake-user-1')
+      .setIssuedAt()
+      .setExpirationTime('5m')
+      .sign(privateKey);
+
+    return new Response(JSON.stringify({ id_token: idToken, access_token: 'ignored' }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }) as typeof fetch;
+
+  return { config, jwks, fetch: fetchFn, authorize };
+}
+
+/**
+ * Testing
+ */
+if (import.meta.vitest) {
+  const { describe, it, expect, beforeEach } = import.meta.vitest;
+  const { createMockKV } = await import('../../testing/backend/mocks/cloudflare-bindings');
+
+  describe('OidcClient', () => {
+    let kv: KVNamespace;
+
+    beforeEach(() => {
+      kv = createMockKV() as unknown as KVNamespace;
+    });
+
+    const setup = async (claims?: Record<string, unknown>, overrides: Partial<OidcProviderConfig> = {}) => {
+      const provider = await createFakeProvider(claims);
+      const client = new OidcClient({ ...provider.config, ...overrides }, kv, provider);
+      return { provider, client };
+    };
+
+    const start = async ({ provider, client }: Awaited<ReturnType<typeof setup>>) => {
+      const { url, state } = await client.createAuthorization();
+      return { callback: provider.authorize(url), state };
+    };
+
+    it('should send PKCE, state and nonce to the provider', async () => {
+      const { client } = await setup();
+      const { url: location, state } = await client.createAuthorization();
+      const url = new URL(location);
+
+      expect(url.searchParams.get('code_challenge_method')).toBe('S256');
+      expect(url.searchParams.get('state')).toBe(state);
+      expect(url.searchParams.get('nonce')).toBeTruthy();
+      expect(url.searchParams.get('scope')).toBe('openid email profile');
+    });
+
+    it('should complete the flow and return the verified identity', async () => {
+      const oidc = await setup();
+      const { callback, state } = await start(oidc);
+
+      expect(await oidc.client.handleCallback(callback, state)).toEqual({
+        provider: 'fake',
+        subject: 'fake-user-1',
+        email: 'person@example.com',
+        emailVerified: true,
+      });
+    });
+
+    it('should reject a replayed callback', async () => {
+      const oidc = await setup();
+      const { callback, state } = await start(oidc);
+      await oidc.client.handleCallback(callback, state);
+
+      await expect(oidc.client.handleCallback(callback, state)).rejects.toThrow('Unknown or expired state');
+    });
+
+    it('should reject a callback for a login another browser started', async () => {
+      const oidc = await setup();
+      const attacker = await start(oidc);
+      const victim = await start(oidc);
+
+      await expect(oidc.client.handleCallback(attacker.callback, null)).rejects.toThrow('State does not match');
+      await expect(oidc.client.handleCallback(attacker.callback, victim.state)).rejects.toThrow('State does not match');
+    });
+
+    it('should reject an ID token with the wrong nonce', async () => {
+      const oidc = await setup({ nonce: 'attacker-nonce' });
+      const { callback, state } = await start(oidc);
+
+      await expect(oidc.client.handleCallback(callback, state)).rejects.toThrow('Invalid ID token');
+    });
+
+    it('should reject an ID token for another client', async () => {
+      const oidc = await setup({}, { clientId: 'other-client' });
+      const { callback, state } = await start(oidc);
+
+      await expect(oidc.client.handleCallback(callback, state)).rejects.toThrow('Invalid ID token');
+    });
+
+    it('should surface provider errors', async () => {
+      const { client } = await setup();
+      const callback = new URL('https://app.example.com/auth/oidc/fake/callback?error=access_denied');
+
+      await expect(client.handleCallback(callback, null)).rejects.toThrow('access_denied');
+    });
+
+    it('should read the state cookie', () => {
+      const request = new Request('https://app.example.com/auth/oidc/fake/callback', {
+        headers: { Cookie: `theme=dark; ${oidcStateCookie('abc').split(';')[0]}` },
+      });
+
+      expect(readOidcStateCookie(request)).toBe('abc');
+      expect(oidcStateCookie(null)).toContain('Max-Age=0');
+    });
+  });
+}
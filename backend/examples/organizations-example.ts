@@ -0,0 +1,262 @@
+/**
+ * Organizations Example
+ *
+ * Demonstrates multi-tenant (B2B) access for Cloudflare Workers:
+ * - Organization membership in D1, with a role per organization
+ * - Access tokens scoped to one active organization (`orgId` + `orgRole` claims)
+ * - Tenant checks in `authMiddleware`: an `orgId` in the path or JSON body
+ *   must match the token, so handlers never see another tenant's IDs
+ *
+ * Tokens issued at login carry no organization; the client picks one with
+ * `POST /auth/switch-org` (see `auth-middleware-example.ts`), which returns
+ * a new token pair for it. Refreshing re-reads the membership, so removing
+ * a member or changing their role takes effect at the next refresh.
+ *
+ * Org-scoped routes put the organization in the path: `/api/orgs/:orgId/...`.
+ */
+
+import type { JWTPayload } from './auth-middleware-example';
+import { MalformedRequestError } from './auth-errors-example';
+
+export interface Env {
+  DB: D1Database;
+}
+
+/**
+ * Roles within one organization (least to most privileged). Independent of
+ * the global `role`, which stays about the platform itself.
+ */
+export const ORG_ROLES = ['viewer', 'member', 'admin', 'owner'] as const;
+
+export type OrgRole = (typeof ORG_ROLES)[number];
+
+export interface Membership {
+  orgId: string;
+  userId: string;
+  role: OrgRole;
+  createdAt: string;
+}
+
+/**
+ * Storage backend for organization memberships
+ */
+export interface MembershipStore {
+  get(orgId: string, userId: string): Promise<Membership | null>;
+  listForUser(userId: string): Promise<Membership[]>;
+  add(orgId: string, userId: string, role: OrgRole): Promise<Membership>;
+}
+
+/**
+ * D1 Membership Store
+ *
+ * Migration (migrations/0006_create_organizations.sql):
+ * ```sql
+ * CREATE TABLE organizations (
+ *   id TEXT PRIMARY KEY,
+ *   name TEXT NOT NULL,
+ *   created_at TEXT NOT NULL
+ * );
+ *
+ * CREATE TABLE memberships (
+ *   org_id TEXT NOT NULL REFERENCES organizations(id),
+ *   user_id TEXT NOT NULL REFERENCES users(id),
+ *   role TEXT NOT NULL CHECK (role IN ('viewer', 'member', 'admin', 'owner')),
+ *   created_at TEXT NOT NULL,
+ *   PRIMARY KEY (org_id, user_id)
+ * );
+ * CREATE INDEX idx_memberships_user_id ON memberships(user_id);
+ * ```
+ */
+export class D1MembershipStore implements MembershipStore {
+  constructor(private db: D1Database) {}
+
+  async get(orgId: string, userId: string): Promise<Membership | null> {
+    const row = await this.db
+      .prepare('SELECT * FROM memberships WHERE org_id = ? AND user_id = ?')
+      .bind(orgId, userId)
+      .first<MembershipRow>();
+
+    return row ? toMembership(row) : null;
+  }
+
+  async listForUser(userId: string): Promise<Membership[]> {
+    const { results } = await this.db
+      .prepare('SELECT * FROM memberships WHERE user_id = ? ORDER BY created_at')
+      .bind(userId)
+      .all<MembershipRow>();
+
+    return results.map(toMembership);
+  }
+
+  async add(orgId: string, userId: string, role: OrgRole): Promise<Membership> {
+    const membership: Membership = { orgId, userId, role, createdAt: new Date().toISOString() };
+
+    await this.db
+      .prepare('INSERT INTO memberships (org_id, user_id, role, created_at) VALUES (?, ?, ?, ?)')
+      .bind(orgId, userId, role, membership.createdAt)
+      .run();
+
+    return membership;
+  }
+}
+
+interface MembershipRow {
+  org_id: string;
+  user_id: string;
+  role: OrgRole;
+  created_at: string;
+}
+
+function toMembership(row: MembershipRow): Membership {
+  return { orgId: row.org_id, userId: row.user_id, role: row.role, createdAt: row.created_at };
+}
+
+/**
+ * In-Memory Membership Store (tests and local development)
+ */
+export class InMemoryMembershipStore implements MembershipStore {
+  private memberships = new Map<string, Membership>();
+
+  async get(orgId: string, userId: string): Promise<Membership | null> {
+    return this.memberships.get(`${orgId}:${userId}`) ?? null;
+  }
+
+  async listForUser(userId: string): Promise<Membership[]> {
+    return [...this.memberships.values()].filter((membership) => membership.userId === userId);
+  }
+
+  async add(orgId: string, userId: string, role: OrgRole): Promise<Membership> {
+    const membership: Membership = { orgId, userId, role, createdAt: new Date().toISOString() };
+    this.memberships.set(`${orgId}:${userId}`, membership);
+
+    return membership;
+  }
+}
+
+/**
+ * Routes whose body `orgId` is the organization to move to, not one being
+ * acted on. Membership is checked by the handler instead.
+ */
+const ORG_SWITCH_PATHS = ['/auth/switch-org'];
+
+/**
+ * Organization IDs a request names: the segment after `/orgs/` in the path,
+ * and a top-level `orgId` in the body. The body is parsed as JSON whatever its
+ * Content-Type, as handlers do, and read from a clone so they can still
+ * consume it. Throws a `MalformedRequestError` for a path that doesn't decode.
+ */
+export async function requestedOrgIds(request: Request): Promise<string[]> {
+  const ids: string[] = [];
+  const { pathname } = new URL(request.url);
+  const segments = pathname.split('/');
+  const index = segments.indexOf('orgs');
+
+  if (index !== -1 && segments[index + 1]) {
+    try {
+      ids.push(decodeURIComponent(segments[index + 1]));
+    } catch {
+      throw new MalformedRequestError('Malformed organization ID in path');
+    }
+  }
+
+  if (ORG_SWITCH_PATHS.includes(pathname)) {
+    return ids;
+  }
+
+  if (request.body) {
+    const body = await request.clone().json().catch(() => null);
+
+    if (body && typeof body === 'object' && 'orgId' in body) {
+      ids.push(String(body.orgId));
+    }
+  }
+
+  return ids;
+}
+
+/**
+ * Whether the request names an organization other than the token's active one.
+ * Tokens without an organization (API keys, unscoped logins) match none.
+ */
+export async function isCrossTenantRequest(request: Request, user: JWTPayload): Promise<boolean> {
+  const ids = await requestedOrgIds(request);
+  return ids.some((id) => id !== user.orgId);
+}
+
+/**
+ * Whether an organization role is at least `minimum`
+ */
+export function hasOrgRole(role: OrgRole | undefined, minimum: OrgRole): boolean {
+  return role !== undefined && ORG_ROLES.indexOf(role) >= ORG_ROLES.indexOf(minimum);
+}
+
+/**
+ * Testing
+ */
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+
+  describe('isCrossTenantRequest', () => {
+    const user: JWTPayload = { userId: '1', email: 'a@example.com', role: 'user', orgId: 'org-a', orgRole: 'member' };
+
+    const post = (path: string, body: unknown) =>
+      new Request(`https://example.com${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+
+    it('should accept requests for the active organization', async () => {
+      expect(await isCrossTenantRequest(new Request('https://example.com/api/orgs/org-a/projects'), user)).toBe(false);
+      expect(await isCrossTenantRequest(post('/api/projects', { orgId: 'org-a', name: 'Roadmap' }), user)).toBe(false);
+      expect(await isCrossTenantRequest(new Request('https://example.com/api/profile'), user)).toBe(false);
+    });
+
+    it('should reject another organization in the path or body', async () => {
+      expect(await isCrossTenantRequest(new Request('https://example.com/api/orgs/org-b/projects'), user)).toBe(true);
+      expect(await isCrossTenantRequest(post('/api/orgs/org-a/projects', { orgId: 'org-b' }), user)).toBe(true);
+    });
+
+    it('should check the body whatever its content type', async () => {
+      const request = new Request('https://example.com/api/projects', {
+        method: 'POST',
+        headers: { 'Content-Type': 'text/plain' },
+        body: JSON.stringify({ orgId: 'org-b' }),
+      });
+
+      expect(await isCrossTenantRequest(request, user)).toBe(true);
+    });
+
+    it('should let users switch to another organization', async () => {
+      const request = post('/auth/switch-org', { orgId: 'org-b', refreshToken: 'token' });
+
+      expect(await isCrossTenantRequest(request, user)).toBe(false);
+    });
+
+    it('should refuse paths that do not decode', async () => {
+      await expect(isCrossTenantRequest(new Request('https://example.com/api/orgs/%E0%A4%A/projects'), user))
+        .rejects.toThrow(MalformedRequestError);
+    });
+
+    it('should leave the body readable for the handler', async () => {
+      const request = post('/api/projects', { orgId: 'org-a' });
+
+      await isCrossTenantRequest(request, user);
+      expect(await request.json()).toEqual({ orgId: 'org-a' });
+    });
+
+    it('should reject any organization for tokens without one', async () => {
+      const unscoped: JWTPayload = { userId: '1', email: 'a@example.com', role: 'user' };
+
+      expect(await isCrossTenantRequest(new Request('https://example.com/api/orgs/org-a/projects'), unscoped)).toBe(true);
+    });
+  });
+
+  describe('hasOrgRole', () => {
+    it('should rank organization roles', () => {
+      expect(hasOrgRole('owner', 'admin')).toBe(true);
+      expect(hasOrgRole('member', 'admin')).toBe(false);
+      expect(hasOrgRole(undefined, 'viewer')).toBe(false);
+    });
+  });
+}
@@ -0,0 +1,335 @@
+/**
+ * Passwordless Login Example
+ *
+ * Demonstrates email-based sign-in for Cloudflare Workers:
+ * - Signed, single-use magic links (a short-lived JWT whose `jti` lives in KV)
+ * - 6-digit email codes with an attempt limit, stored hashed in KV
+ * - A `MailSender` interface: SendGrid in production, an in-memory outbox in tests
+ *
+ * `POST /auth/passwordless/start` sends both a link and a code; either one
+ * is exchanged for the usual access/refresh pair at
+ * `POST /auth/passwordless/verify` (see `auth-middleware-example.ts`).
+ */
+
+import { normalizeEmail, timingSafeEqual } from './credentials-example';
+import type { SecretManager } from './secrets-example';
+
+export interface Env {
+  PASSWORDLESS: KVNamespace;
+  SENDGRID_API_KEY: string;
+  MAIL_FROM: string;
+  APP_URL: string;
+}
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/**
+ * Outgoing mail transport
+ */
+export interface MailSender {
+  send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * SendGrid Mail Sender
+ *
+ * Reads the API key through `SecretManager` at send time, so Workers that
+ * never send mail don't need `SENDGRID_API_KEY`.
+ */
+export class SendGridMailSender implements MailSender {
+  constructor(private secrets: SecretManager, private from: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const response = await fetch('https://api.sendgrid.com/v3/mail/send', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.secrets.getSendGridKey()}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        personalizations: [{ to: [{ email: message.to }] }],
+        from: { email: this.from },
+        subject: message.subject,
+        content: [{ type: 'text/plain', value: message.text }],
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`SendGrid request failed with status ${response.status}`);
+    }
+  }
+}
+
+/**
+ * In-Memory Mail Sender (tests and local development)
+ */
+export class InMemoryMailSender implements MailSender {
+  outbox: MailMessage[] = [];
+
+  async send(message: MailMessage): Promise<void> {
+    this.outbox.push(message);
+  }
+}
+
+/**
+ * Signs and verifies magic link tokens (`AuthService` in
+ * `auth-middleware-example.ts`)
+ */
+export interface MagicLinkSigner {
+  createMagicLinkToken(email: string, jti: string): Promise<string>;
+  /** The token's claims; throws if it is invalid or expired */
+  verifyToken(token: string): Promise<object>;
+}
+
+interface StoredCode {
+  codeHash: string;
+  attempts: number;
+  expiresAt: number; // epoch ms
+}
+
+/**
+ * Passwordless Login
+ */
+export class PasswordlessLogin {
+  static readonly LINK_TTL_SECONDS = 15 * 60;
+  static readonly CODE_TTL_SECONDS = 10 * 60;
+  static readonly MAX_CODE_ATTEMPTS = 5;
+
+  constructor(
+    private kv: KVNamespace,
+    private auth: MagicLinkSigner,
+    private mail: MailSender,
+    private appUrl: string
+  ) {}
+
+  /**
+   * Email a sign-in link and code. Sending again replaces the previous code.
+   *
+   * The link opens an app page that POSTs the token to the verify route;
+   * a link that signs in on GET would be consumed by mail scanners that
+   * prefetch URLs.
+   */
+  async start(email: string): Promise<void> {
+    const normalized = normalizeEmail(email);
+    const jti = crypto.randomUUID();
+    const token = await this.auth.createMagicLinkToken(normalized, jti);
+
+    await this.kv.put(`magic-link:${jti}`, normalized, {
+      expirationTtl: PasswordlessLogin.LINK_TTL_SECONDS,
+    });
+
+    const code = String(crypto.getRandomValues(new Uint32Array(1))[0] % 1_000_000).padStart(6, '0');
+    const stored: StoredCode = {
+      codeHash: await hashCode(code),
+      attempts: 0,
+      expiresAt: Date.now() + PasswordlessLogin.CODE_TTL_SECONDS * 1000,
+    };
+
+    await this.kv.put(await codeKey(normalized), JSON.stringify(stored), {
+      expirationTtl: PasswordlessLogin.CODE_TTL_SECONDS,
+    });
+
+    const link = new URL('/login/magic', this.appUrl);
+    link.searchParams.set('token', token);
+
+    await this.mail.send({
+      to: normalized,
+      subject: 'Your sign-in link',
+      text:
+        `Sign in: ${link}\n\n` +
+        `Or enter this code: ${code}\n\n` +
+        `The link expires in 15 minutes and the code in 10. ` +
+        `If you didn't request this, you can ignore this email.`,
+    });
+  }
+
+  /**
+   * Consume a magic link token, returning the verified email
+   */
+  async verifyLink(token: string): Promise<string | null> {
+    let payload: { type?: string; email?: string; jti?: string };
+
+    try {
+      payload = await this.auth.verifyToken(token);
+    } catch (error) {
+      return null;
+    }
+
+    if (payload.type !== 'magic_link' || !payload.jti) {
+      return null;
+    }
+
+    const key = `magic-link:${payload.jti}`;
+    const email = await this.kv.get(key);
+
+    if (!email || email !== payload.email) {
+      return null;
+    }
+
+    await this.kv.delete(key);
+    return email;
+  }
+
+  /**
+   * Consume an emailed code, returning the verified email. The code is
+   * discarded after too many wrong guesses.
+   */
+  async verifyCode(email: string, code: string): Promise<string | null> {
+    const normalized = normalizeEmail(email);
+    const key = await codeKey(normalized);
+    const data = await this.kv.get(key);
+
+    if (!data) {
+      return null;
+    }
+
+    const stored: StoredCode = JSON.parse(data);
+
+    if (Date.now() >= stored.expiresAt) {
+      await this.kv.delete(key);
+      return null;
+    }
+
+    const presented = new TextEncoder().encode(await hashCode(code));
+
+    if (timingSafeEqual(presented, new TextEncoder().encode(stored.codeHash))) {
+      await this.kv.delete(key);
+      return normalized;
+    }
+
+    const attempts = stored.attempts + 1;
+    // Keep the original expiry: guessing must not extend the code's lifetime
+    const remaining = Math.floor((stored.expiresAt - Date.now()) / 1000);
+
+    // KV rejects TTLs under 60 seconds, so a code that close to expiring goes now
+    if (attempts >= PasswordlessLogin.MAX_CODE_ATTEMPTS || remaining < 60) {
+      await this.kv.delete(key);
+    } else {
+      await this.kv.put(key, JSON.stringify({ ...stored, attempts }), { expirationTtl: remaining });
+    }
+
+    return null;
+  }
+}
+
+async function hashCode(code: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(String(code ?? '').trim()));
+  return btoa(String.fromCharCode(...new Uint8Array(digest)));
+}
+
+/**
+ * KV key for an email's pending code; hashed so keys carry no PII
+ */
+async function codeKey(email: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(email));
+  return `login-code:${btoa(String.fromCharCode(...new Uint8Array(digest)))}`;
+}
+
+/**
+ * Testing
+ */
+if (import.meta.vitest) {
+  const { describe, it, expect, beforeEach, afterEach, vi } = import.meta.vitest;
+  const { jwtVerify, SignJWT } = await import('jose');
+  const { createMockKV } = await import('../../testing/backend/mocks/cloudflare-bindings');
+
+  describe('PasswordlessLogin', () => {
+    const key = crypto.getRandomValues(new Uint8Array(32));
+    const sign = (claims: Record<string, unknown>, jti: string) =>
+      new SignJWT(claims).setProtectedHeader({ alg: 'HS256' }).setJti(jti).setExpirationTime('15m').sign(key);
+    const auth: MagicLinkSigner = {
+      createMagicLinkToken: (email, jti) => sign({ email, type: 'magic_link' }, jti),
+      verifyToken: async (token) => (await jwtVerify(token, key)).payload,
+    };
+
+    let mail: InMemoryMailSender;
+    let login: PasswordlessLogin;
+
+    beforeEach(() => {
+      mail = new InMemoryMailSender();
+      login = new PasswordlessLogin(createMockKV() as unknown as KVNamespace, auth, mail, 'https://app.example.com');
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    const sent = () => {
+      const { text } = mail.outbox[mail.outbox.length - 1];
+
+      return {
+        token: new URL(/https:\S+/.exec(text)![0]).searchParams.get('token')!,
+        code: /code: (\d{6})/.exec(text)![1],
+      };
+    };
+
+    it('should email a link and a code', async () => {
+      await login.start('Test@Example.com');
+
+      expect(mail.outbox).toHaveLength(1);
+      expect(mail.outbox[0].to).toBe('test@example.com');
+      expect(mail.outbox[0].text).toContain('https://app.example.com/login/magic?token=');
+    });
+
+    it('should accept a magic link once', async () => {
+      await login.start('test@example.com');
+      const { token } = sent();
+
+      expect(await login.verifyLink(token)).toBe('test@example.com');
+      expect(await login.verifyLink(token)).toBeNull();
+    });
+
+    it('should reject tokens that are not magic links', async () => {
+      const accessToken = await sign({ userId: '1', email: 'test@example.com', role: 'user' }, crypto.randomUUID());
+
+      expect(await login.verifyLink(accessToken)).toBeNull();
+    });
+
+    it('should accept a code once', async () => {
+      await login.start('test@example.com');
+      const { code } = sent();
+
+      expect(await login.verifyCode('TEST@example.com', code)).toBe('test@example.com');
+      expect(await login.verifyCode('test@example.com', code)).toBeNull();
+    });
+
+    it('should discard the code after too many wrong guesses', async () => {
+      await login.start('test@example.com');
+      const { code } = sent();
+      const wrong = code === '000000' ? '111111' : '000000';
+
+      for (let i = 0; i < PasswordlessLogin.MAX_CODE_ATTEMPTS; i++) {
+        expect(await login.verifyCode('test@example.com', wrong)).toBeNull();
+      }
+
+      expect(await login.verifyCode('test@example.com', code)).toBeNull();
+    });
+
+    it('should reject a code past its lifetime, even if KV still has it', async () => {
+      await login.start('test@example.com');
+      const { code } = sent();
+
+      vi.useFakeTimers();
+      vi.setSystemTime(Date.now() + PasswordlessLogin.CODE_TTL_SECONDS * 1000);
+
+      expect(await login.verifyCode('test@example.com', code)).toBeNull();
+    });
+
+    it('should not extend a code by guessing', async () => {
+      await login.start('test@example.com');
+      const { code } = sent();
+      const wrong = code === '000000' ? '111111' : '000000';
+
+      vi.useFakeTimers();
+      vi.setSystemTime(Date.now() + (PasswordlessLogin.CODE_TTL_SECONDS - 30) * 1000);
+
+      // Under a minute left: KV can't hold it that briefly, so a wrong guess ends it
+      expect(await login.verifyCode('test@example.com', wrong)).toBeNull();
+      expect(await login.verifyCode('test@example.com', code)).toBeNull();
+    });
+  });
+}
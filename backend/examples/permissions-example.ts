@@ -0,0 +1,196 @@
+/**
+ * Permission Policy Example
+ *
+ * Demonstrates permission-based authorization for Cloudflare Workers:
+ * - Roles are named permission sets, with inheritance
+ * - Routes check permissions (`billing:write`), not role names
+ * - Resource-scoped permissions (`posts:write:own`) only apply to the owner
+ *
+ * Adding a role is a change to `ROLES`; no route code has to change.
+ */
+
+import type { JWTPayload } from './auth-middleware-example';
+
+/**
+ * Permissions are `resource:action`, optionally suffixed with `:own`.
+ * `*` and `resource:*` are wildcards.
+ */
+export type Permission = `${string}:${string}` | '*';
+
+export interface RoleDefinition {
+  permissions: Permission[];
+  inherits?: string[];
+}
+
+/**
+ * Role definitions (least to most privileged)
+ */
+export const ROLES = {
+  guest: {
+    permissions: ['content:read'],
+  },
+  user: {
+    inherits: ['guest'],
+    permissions: ['profile:read:own', 'profile:write:own', 'billing:read:own', 'posts:write:own'],
+  },
+  admin: {
+    inherits: ['user'],
+    permissions: ['*'],
+  },
+} satisfies Record<string, RoleDefinition>;
+
+export type Role = keyof typeof ROLES;
+
+/**
+ * The less privileged of two roles
+ */
+export function lowerRole(a: Role, b: Role): Role {
+  const order = Object.keys(ROLES) as Role[];
+  return order.indexOf(a) <= order.indexOf(b) ? a : b;
+}
+
+/**
+ * A resource that belongs to a user, for `:own` permission checks
+ */
+export interface OwnedResource {
+  ownerId: string;
+}
+
+/**
+ * Access Policy
+ *
+ * Resolves role inheritance once and answers permission checks.
+ */
+export class AccessPolicy {
+  private resolved = new Map<string, Set<Permission>>();
+
+  constructor(private roles: Record<string, RoleDefinition> = ROLES) {}
+
+  /**
+   * All permissions granted to a role, including inherited ones
+   */
+  permissionsFor(role: string): Set<Permission> {
+    let permissions = this.resolved.get(role);
+
+    if (!permissions) {
+      permissions = this.resolve(role, new Set());
+      this.resolved.set(role, permissions);
+    }
+
+    return permissions;
+  }
+
+  /**
+   * Check whether a user holds a permission, optionally on a specific resource
+   */
+  can(
+    user: Pick<JWTPayload, 'userId' | 'role' | 'scopes'>,
+    permission: Permission,
+    resource?: OwnedResource
+  ): boolean {
+    const owned = !!resource && resource.ownerId === user.userId;
+
+    // Scoped principals (API keys) must hold the permission in both role and scopes
+    if (user.scopes && !allows(new Set(user.scopes), permission, owned)) {
+      return false;
+    }
+
+    return allows(this.permissionsFor(user.role), permission, owned);
+  }
+
+  private resolve(role: string, visiting: Set<string>): Set<Permission> {
+    const definition = this.roles[role];
+
+    if (!definition || visiting.has(role)) {
+      return new Set();
+    }
+
+    visiting.add(role);
+
+    const permissions = new Set<Permission>(definition.permissions);
+    for (const parent of definition.inherits ?? []) {
+      for (const permission of this.resolve(parent, visiting)) {
+        permissions.add(permission);
+      }
+    }
+
+    return permissions;
+  }
+}
+
+/**
+ * Scoped grant: `posts:write:own` covers `posts:write` on the user's own resources
+ */
+function allows(granted: Set<Permission>, permission: Permission, owned: boolean): boolean {
+  return matches(granted, permission) || (owned && matches(granted, `${permission}:own`));
+}
+
+function matches(granted: Set<Permission>, permission: Permission): boolean {
+  if (granted.has('*') || granted.has(permission)) {
+    return true;
+  }
+
+  const [resource] = permission.split(':');
+  return granted.has(`${resource}:*`);
+}
+
+export const defaultPolicy = new AccessPolicy();
+
+/**
+ * Testing
+ */
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+
+  describe('AccessPolicy', () => {
+    const policy = new AccessPolicy();
+
+    it('should inherit permissions from parent roles', () => {
+      expect(policy.can({ userId: '1', role: 'user' }, 'content:read')).toBe(true);
+      expect(policy.can({ userId: '1', role: 'guest' }, 'profile:read')).toBe(false);
+    });
+
+    it('should grant everything to admin via wildcard', () => {
+      expect(policy.can({ userId: '1', role: 'admin' }, 'billing:write')).toBe(true);
+    });
+
+    it('should apply :own permissions only to the owner', () => {
+      const user = { userId: '1', role: 'user' as const };
+
+      expect(policy.can(user, 'posts:write', { ownerId: '1' })).toBe(true);
+      expect(policy.can(user, 'posts:write', { ownerId: '2' })).toBe(false);
+      expect(policy.can(user, 'posts:write')).toBe(false);
+    });
+
+    it('should restrict scoped principals to their scopes', () => {
+      const scoped = { userId: '1', role: 'admin' as const, scopes: ['content:read' as Permission] };
+
+      expect(policy.can(scoped, 'content:read')).toBe(true);
+      expect(policy.can(scoped, 'billing:write')).toBe(false);
+    });
+
+    it('should apply :own scopes only to the owner', () => {
+      const scoped = { userId: '1', role: 'admin' as const, scopes: ['posts:write:own' as Permission] };
+
+      expect(policy.can(scoped, 'posts:write', { ownerId: '1' })).toBe(true);
+      expect(policy.can(scoped, 'posts:write', { ownerId: '2' })).toBe(false);
+      expect(policy.can(scoped, 'posts:write')).toBe(false);
+    });
+
+    it('should support resource wildcards', () => {
+      const custom = new AccessPolicy({ billing: { permissions: ['billing:*'] } });
+
+      expect(custom.can({ userId: '1', role: 'billing' as Role }, 'billing:write')).toBe(true);
+      expect(custom.can({ userId: '1', role: 'billing' as Role }, 'users:write')).toBe(false);
+    });
+
+    it('should not loop on circular inheritance', () => {
+      const circular = new AccessPolicy({
+        a: { permissions: ['a:read'], inherits: ['b'] },
+        b: { permissions: ['b:read'], inherits: ['a'] },
+      });
+
+      expect([...circular.permissionsFor('a')].sort()).toEqual(['a:read', 'b:read']);
+    });
+  });
+}
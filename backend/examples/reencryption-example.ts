@@ -0,0 +1,646 @@
+/**
+ * Re-encryption Example
+ *
+ * Demonstrates moving stored ciphertexts to the current encryption key after
+ * a rotation (see "Rotating Encryption Keys" in `secrets-example.ts`):
+ * - A Queue consumer that pages through configured D1 columns, one page per message
+ * - Decrypt with whatever key the envelope names, re-encrypt with `encryptSensitiveData`
+ * - Progress per column in D1, so a run resumes where it stopped
+ * - A count of rows still on an old key, to know when the old key can go
+ * - Rows that fail to decrypt are logged by ID, counted and skipped, so one
+ *   bad row doesn't stall the run; they stay on their old key until fixed
+ *
+ * Every step is idempotent, so Queue retries and duplicate deliveries are
+ * safe: rows already on the current key are skipped, a row is only replaced
+ * if it still holds the value that was read, and progress only moves
+ * forward from the cursor the message was sent for. A message that lost
+ * that race is acknowledged and dropped.
+ *
+ * Starting is idempotent too: `startReencryption` resumes unfinished runs
+ * from their stored cursor, so calling it again (or from a daily cron
+ * trigger) restarts a chain that stopped between two messages.
+ *
+ * The columns to cover are passed in by the Worker, usually
+ * `REENCRYPTION_TARGETS` from `encrypted-columns-example.ts`.
+ */
+
+import {
+  currentEncryptionKeyId,
+  decryptSensitiveData,
+  encryptSensitiveData,
+  parseEnvelope,
+  type VersionedEncryptionKeys,
+} from './secrets-example';
+
+export interface Env extends VersionedEncryptionKeys {
+  DB: D1Database;
+  REENCRYPTION_QUEUE: Queue<ReencryptionMessage>;
+  ENCRYPTION_KEY?: string;
+}
+
+/**
+ * An encrypted column. `aad` must match what the column was encrypted with.
+ */
+export interface ReencryptionTarget {
+  table: string;
+  column: string;
+  idColumn: string;
+  aad?: (id: string) => string;
+}
+
+export const PAGE_SIZE = 100;
+
+export interface ReencryptionMessage {
+  table: string;
+  column: string;
+  keyId: string; // the key this run re-encrypts to
+  cursor: string | null; // last ID of the previous page
+}
+
+export interface ReencryptionProgress {
+  table: string;
+  column: string;
+  keyId: string;
+  cursor: string | null;
+  done: boolean;
+  rowsUpdated: number;
+  rowsFailed: number;
+  updatedAt: string;
+}
+
+export interface EncryptedRow {
+  id: string;
+  value: string | null;
+}
+
+/**
+ * Storage backend for the job: the encrypted columns and the progress table
+ */
+export interface ReencryptionStore {
+  /** Rows with ID after `cursor`, in ID order */
+  page(target: ReencryptionTarget, cursor: string | null, limit: number): Promise<EncryptedRow[]>;
+  /** Replace a value only if it is still `from`; false if the row changed meanwhile */
+  replace(target: ReencryptionTarget, id: string, from: string, to: string): Promise<boolean>;
+  /** Rows whose value is not encrypted with `keyId` (including pre-envelope data) */
+  countNotOnKey(target: ReencryptionTarget, keyId: string): Promise<number>;
+  getProgress(target: ReencryptionTarget): Promise<ReencryptionProgress | null>;
+  /** Create progress for a run to `keyId`, resetting a run to another key */
+  startProgress(target: ReencryptionTarget, keyId: string): Promise<ReencryptionProgress>;
+  /** Move progress from `cursor` to `next`; false if it isn't at `cursor` (another delivery won) */
+  advance(target: ReencryptionTarget, keyId: string, cursor: string | null, next: ProgressStep): Promise<boolean>;
+}
+
+/**
+ * One page's worth of progress: the new cursor and the rows to add to the counts
+ */
+export interface ProgressStep {
+  cursor: string | null;
+  done: boolean;
+  rowsUpdated: number;
+  rowsFailed: number;
+}
+
+/**
+ * D1 Re-encryption Store
+ *
+ * Table and column names come from the configured targets, never from
+ * input, and are checked before being put into SQL (identifiers can't be
+ * bound).
+ *
+ * Migration (migrations/0007_create_reencryption_progress.sql):
+ * ```sql
+ * CREATE TABLE reencryption_progress (
+ *   table_name TEXT NOT NULL,
+ *   column_name TEXT NOT NULL,
+ *   key_id TEXT NOT NULL,
+ *   cursor TEXT,
+ *   done INTEGER NOT NULL DEFAULT 0,
+ *   rows_updated INTEGER NOT NULL DEFAULT 0,
+ *   rows_failed INTEGER NOT NULL DEFAULT 0,
+ *   updated_at TEXT NOT NULL,
+ *   PRIMARY KEY (table_name, column_name)
+ * );
+ * ```
+ */
+export class D1ReencryptionStore implements ReencryptionStore {
+  constructor(private db: D1Database) {}
+
+  async page(target: ReencryptionTarget, cursor: string | null, limit: number): Promise<EncryptedRow[]> {
+    const { table, column, idColumn } = identifiers(target);
+    const { results } = await this.db
+      .prepare(
+        `SELECT ${idColumn} AS id, ${column} AS value FROM ${table} ` +
+        `WHERE ? IS NULL OR ${idColumn} > ? ORDER BY ${idColumn} LIMIT ?`
+      )
+      .bind(cursor, cursor, limit)
+      .all<EncryptedRow>();
+
+    return results;
+  }
+
+  async replace(target: ReencryptionTarget, id: string, from: string, to: string): Promise<boolean> {
+    const { table, column, idColumn } = identifiers(target);
+    const result = await this.db
+      .prepare(`UPDATE ${table} SET ${column} = ? WHERE ${idColumn} = ? AND ${column} = ?`)
+      .bind(to, id, from)
+      .run();
+
+    return result.meta.changes === 1;
+  }
+
+  async countNotOnKey(target: ReencryptionTarget, keyId: string): Promise<number> {
+    const { table, column } = identifiers(target);
+    const count = await this.db
+      .prepare(`SELECT COUNT(*) AS count FROM ${table} WHERE ${column} IS NOT NULL AND substr(${column}, 1, ?) != ?`)
+      .bind(envelopePrefix(keyId).length, envelopePrefix(keyId))
+      .first<number>('count');
+
+    return count ?? 0;
+  }
+
+  async getProgress(target: ReencryptionTarget): Promise<ReencryptionProgress | null> {
+    const row = await this.db
+      .prepare('SELECT * FROM reencryption_progress WHERE table_name = ? AND column_name = ?')
+      .bind(target.table, target.column)
+      .first<ProgressRow>();
+
+    return row ? toProgress(row) : null;
+  }
+
+  async startProgress(target: ReencryptionTarget, keyId: string): Promise<ReencryptionProgress> {
+    await this.db
+      .prepare(
+        'INSERT INTO reencryption_progress ' +
+        '(table_name, column_name, key_id, cursor, done, rows_updated, rows_failed, updated_at) ' +
+        'VALUES (?, ?, ?, NULL, 0, 0, 0, ?) ' +
+        'ON CONFLICT(table_name, column_name) DO UPDATE SET key_id = excluded.key_id, cursor = NULL, done = 0, ' +
+        'rows_updated = 0, rows_failed = 0, updated_at = excluded.updated_at WHERE key_id != excluded.key_id'
+      )
+      .bind(target.table, target.column, keyId, new Date().toISOString())
+      .run();
+
+    return (await this.getProgress(target))!;
+  }
+
+  async advance(target: ReencryptionTarget, keyId: string, cursor: string | null, next: ProgressStep): Promise<boolean> {
+    const result = await this.db
+      .prepare(
+        'UPDATE reencryption_progress SET cursor = ?, done = ?, rows_updated = rows_updated + ?, ' +
+        'rows_failed = rows_failed + ?, updated_at = ? ' +
+        'WHERE table_name = ? AND column_name = ? AND key_id = ? AND cursor IS ? AND done = 0'
+      )
+      .bind(
+        next.cursor,
+        next.done ? 1 : 0,
+        next.rowsUpdated,
+        next.rowsFailed,
+        new Date().toISOString(),
+        target.table,
+        target.column,
+        keyId,
+        cursor
+      )
+      .run();
+
+    return result.meta.changes === 1;
+  }
+}
+
+interface ProgressRow {
+  table_name: string;
+  column_name: string;
+  key_id: string;
+  cursor: string | null;
+  done: number;
+  rows_updated: number;
+  rows_failed: number;
+  updated_at: string;
+}
+
+function toProgress(row: ProgressRow): ReencryptionProgress {
+  return {
+    table: row.table_name,
+    column: row.column_name,
+    keyId: row.key_id,
+    cursor: row.cursor,
+    done: row.done === 1,
+    rowsUpdated: row.rows_updated,
+    rowsFailed: row.rows_failed,
+    updatedAt: row.updated_at,
+  };
+}
+
+function identifiers(target: ReencryptionTarget): ReencryptionTarget {
+  for (const name of [target.table, target.column, target.idColumn]) {
+    if (!/^[a-z_][a-z0-9_]*$/.test(name)) {
+      throw new Error(`Invalid SQL identifier in re-encryption target: ${name}`);
+    }
+  }
+
+  return target;
+}
+
+function envelopePrefix(keyId: string): string {
+  return `enc1.${keyId}.`;
+}
+
+/**
+ * In-Memory Re-encryption Store (tests and local development)
+ */
+export class InMemoryReencryptionStore implements ReencryptionStore {
+  private tables = new Map<string, Map<string, string | null>>();
+  private progress = new Map<string, ReencryptionProgress>();
+
+  /** Seed or read a column directly */
+  set(target: ReencryptionTarget, id: string, value: string | null): void {
+    const key = `${target.table}.${target.column}`;
+    const column = this.tables.get(key) ?? new Map<string, string | null>();
+
+    this.tables.set(key, column.set(id, value));
+  }
+
+  get(target: ReencryptionTarget, id: string): string | null | undefined {
+    return this.tables.get(`${target.table}.${target.column}`)?.get(id);
+  }
+
+  async page(target: ReencryptionTarget, cursor: string | null, limit: number): Promise<EncryptedRow[]> {
+    return [...this.rows(target)]
+      .filter(({ id }) => cursor === null || id > cursor)
+      .sort((a, b) => (a.id < b.id ? -1 : 1))
+      .slice(0, limit);
+  }
+
+  async replace(target: ReencryptionTarget, id: string, from: string, to: string): Promise<boolean> {
+    if (this.get(target, id) !== from) {
+      return false;
+    }
+
+    this.set(target, id, to);
+    return true;
+  }
+
+  async countNotOnKey(target: ReencryptionTarget, keyId: string): Promise<number> {
+    return [...this.rows(target)].filter(({ value }) => value !== null && !value.startsWith(envelopePrefix(keyId)))
+      .length;
+  }
+
+  async getProgress(target: ReencryptionTarget): Promise<ReencryptionProgress | null> {
+    const progress = this.progress.get(`${target.table}.${target.column}`);
+    return progress ? { ...progress } : null;
+  }
+
+  async startProgress(target: ReencryptionTarget, keyId: string): Promise<ReencryptionProgress> {
+    const existing = await this.getProgress(target);
+
+    if (existing?.keyId === keyId) {
+      return existing;
+    }
+
+    const progress: ReencryptionProgress = {
+      table: target.table,
+      column: target.column,
+      keyId,
+      cursor: null,
+      done: false,
+      rowsUpdated: 0,
+      rowsFailed: 0,
+      updatedAt: new Date().toISOString(),
+    };
+    this.progress.set(`${target.table}.${target.column}`, progress);
+
+    return { ...progress };
+  }
+
+  async advance(target: ReencryptionTarget, keyId: string, cursor: string | null, next: ProgressStep): Promise<boolean> {
+    const progress = this.progress.get(`${target.table}.${target.column}`);
+
+    if (!progress || progress.keyId !== keyId || progress.cursor !== cursor || progress.done) {
+      return false;
+    }
+
+    progress.cursor = next.cursor;
+    progress.done = next.done;
+    progress.rowsUpdated += next.rowsUpdated;
+    progress.rowsFailed += next.rowsFailed;
+    progress.updatedAt = new Date().toISOString();
+
+    return true;
+  }
+
+  private *rows(target: ReencryptionTarget): Iterable<EncryptedRow> {
+    for (const [id, value] of this.tables.get(`${target.table}.${target.column}`) ?? []) {
+      yield { id, value };
+    }
+  }
+}
+
+/**
+ * Start (or resume) re-encrypting every target to the current key. Safe to
+ * call repeatedly: finished targets are skipped and unfinished ones resume
+ * from their stored cursor.
+ */
+export async function startReencryption(
+  env: Env,
+  targets: ReencryptionTarget[],
+  store: ReencryptionStore = new D1ReencryptionStore(env.DB)
+): Promise<void> {
+  const keyId = currentEncryptionKeyId(env);
+
+  for (const target of targets) {
+    const progress = await store.startProgress(target, keyId);
+
+    if (!progress.done) {
+      await env.REENCRYPTION_QUEUE.send({
+        table: target.table,
+        column: target.column,
+        keyId,
+        cursor: progress.cursor,
+      });
+    }
+  }
+}
+
+/**
+ * Re-encrypt one page. Returns the number of rows rewritten, or null if
+ * the message was stale (a newer key, or progress already moved on).
+ * Rows that can't be decrypted are counted in `rowsFailed` and skipped;
+ * storage errors throw, so the message is retried.
+ */
+export async function reencryptPage(
+  message: ReencryptionMessage,
+  env: Env,
+  targets: ReencryptionTarget[],
+  store: ReencryptionStore = new D1ReencryptionStore(env.DB)
+): Promise<number | null> {
+  const target = targets.find(({ table, column }) => table === message.table && column === message.column);
+  const keyId = currentEncryptionKeyId(env);
+  const progress = target ? await store.getProgress(target) : null;
+
+  if (
+    !target ||
+    message.keyId !== keyId ||
+    !progress ||
+    progress.done ||
+    progress.keyId !== message.keyId ||
+    progress.cursor !== message.cursor
+  ) {
+    return null;
+  }
+
+  const rows = await store.page(target, message.cursor, PAGE_SIZE);
+  let rowsUpdated = 0;
+  let rowsFailed = 0;
+
+  for (const { id, value } of rows) {
+    if (value === null || parseEnvelope(value)?.keyId === keyId) {
+      continue;
+    }
+
+    const aad = target.aad?.(id);
+    let reencrypted: string;
+
+    try {
+      reencrypted = await encryptSensitiveData(await decryptSensitiveData(value, env, { aad }), env, { aad });
+    } catch (error) {
+      // Retrying won't fix a corrupt row or a deleted key; the row stays in `remaining`
+      console.error('Re-encryption skipped a row', target.table, target.column, id, error);
+      rowsFailed++;
+      continue;
+    }
+
+    // A row written meanwhile already uses the current key
+    if (await store.replace(target, id, value, reencrypted)) {
+      rowsUpdated++;
+    }
+  }
+
+  const next: ProgressStep = {
+    cursor: rows.length > 0 ? rows[rows.length - 1].id : message.cursor,
+    done: rows.length < PAGE_SIZE,
+    rowsUpdated,
+    rowsFailed,
+  };
+
+  if (!(await store.advance(target, message.keyId, message.cursor, next))) {
+    return null;
+  }
+
+  if (!next.done) {
+    await env.REENCRYPTION_QUEUE.send({ ...message, cursor: next.cursor });
+  }
+
+  return rowsUpdated;
+}
+
+/**
+ * Queue consumer:
+ *
+ * ```typescript
+ * export default {
+ *   queue: (batch, env) => handleReencryptionBatch(batch, env, REENCRYPTION_TARGETS),
+ * };
+ * ```
+ */
+export async function handleReencryptionBatch(
+  batch: MessageBatch<ReencryptionMessage>,
+  env: Env,
+  targets: ReencryptionTarget[],
+  store: ReencryptionStore = new D1ReencryptionStore(env.DB)
+): Promise<void> {
+  for (const message of batch.messages) {
+    try {
+      await reencryptPage(message.body, env, targets, store);
+      message.ack();
+    } catch (error) {
+      console.error('Re-encryption failed', message.body.table, message.body.column, error);
+      message.retry();
+    }
+  }
+}
+
+export interface ReencryptionStatus {
+  table: string;
+  column: string;
+  keyId: string;
+  remaining: number; // rows still on an old key
+  done: boolean;
+  rowsUpdated: number;
+  rowsFailed: number; // skipped because they couldn't be decrypted (see the logs for IDs)
+}
+
+/**
+ * Rows left on old keys per target. An old key can be deleted once every
+ * target reports `remaining: 0`; failed rows count as remaining.
+ */
+export async function reencryptionStatus(
+  env: Env,
+  targets: ReencryptionTarget[],
+  store: ReencryptionStore = new D1ReencryptionStore(env.DB)
+): Promise<ReencryptionStatus[]> {
+  const keyId = currentEncryptionKeyId(env);
+
+  return Promise.all(
+    targets.map(async (target) => {
+      const progress = await store.getProgress(target);
+      const onCurrentKey = progress?.keyId === keyId;
+
+      return {
+        table: target.table,
+        column: target.column,
+        keyId,
+        remaining: await store.countNotOnKey(target, keyId),
+        done: onCurrentKey && progress.done,
+        rowsUpdated: onCurrentKey ? progress.rowsUpdated : 0,
+        rowsFailed: onCurrentKey ? progress.rowsFailed : 0,
+      };
+    })
+  );
+}
+
+/**
+ * Testing
+ */
+if (import.meta.vitest) {
+  const { describe, it, expect, beforeEach, vi } = import.meta.vitest;
+  const { createMockQueue } = await import('../../testing/backend/mocks/cloudflare-bindings');
+
+  describe('re-encryption', () => {
+    const target: ReencryptionTarget = { table: 'mfa_enrollments', column: 'secret', idColumn: 'user_id' };
+    const targets = [target];
+
+    // openssl rand -base64 32
+    const FIRST_KEY = 'WogFF/kyhKg4pu3WS5R9tPC+mfuaumGy3gteyG21gNQ=';
+    const SECOND_KEY = 'h4iHy+QafA43hWky8CTtOhbqFiD+cxtAw0x1v+ej42I=';
+    const THIRD_KEY = 'Yr3zjJVRdfdObiv+hWD10+mwNVrkVot7MHliTJEY5B0=';
+
+    let store: InMemoryReencryptionStore;
+    let queue: ReturnType<typeof createMockQueue<ReencryptionMessage>>;
+    let oldEnv: Env;
+    let env: Env;
+
+    beforeEach(async () => {
+      store = new InMemoryReencryptionStore();
+      queue = createMockQueue<ReencryptionMessage>();
+      oldEnv = { DB: {} as D1Database, REENCRYPTION_QUEUE: queue as unknown as Queue, ENCRYPTION_KEY_V1: FIRST_KEY };
+      env = { ...oldEnv, ENCRYPTION_KEY_V2: SECOND_KEY };
+
+      for (let i = 0; i < PAGE_SIZE + 5; i++) {
+        const id = `user-${String(i).padStart(3, '0')}`;
+        store.set(target, id, await encryptSensitiveData(`secret-${i}`, oldEnv));
+      }
+      store.set(target, 'user-null', null);
+    });
+
+    // Deliver queued messages until the queue is empty, like the Queue would
+    const reencrypt = (message: ReencryptionMessage) => reencryptPage(message, env, targets, store);
+
+    const drain = async (deliver: (message: ReencryptionMessage) => Promise<unknown> = reencrypt) => {
+      let delivered = 0;
+
+      while (vi.mocked(queue.send).mock.calls.length > delivered) {
+        await deliver(vi.mocked(queue.send).mock.calls[delivered++][0]);
+      }
+
+      return delivered;
+    };
+
+    it('should move every row to the current key, page by page', async () => {
+      expect((await reencryptionStatus(env, targets, store))[0].remaining).toBe(PAGE_SIZE + 5);
+
+      await startReencryption(env, targets, store);
+      expect(await drain()).toBe(2);
+
+      const [status] = await reencryptionStatus(env, targets, store);
+      expect(status).toMatchObject({ keyId: 'v2', remaining: 0, done: true, rowsUpdated: PAGE_SIZE + 5 });
+      expect(parseEnvelope(store.get(target, 'user-007')!)?.keyId).toBe('v2');
+      expect(await decryptSensitiveData(store.get(target, 'user-007')!, env)).toBe('secret-7');
+      expect(store.get(target, 'user-null')).toBeNull();
+    });
+
+    it('should be idempotent under duplicate deliveries', async () => {
+      await startReencryption(env, targets, store);
+
+      // Every message is delivered twice
+      await drain(async (message) => {
+        await reencrypt(message);
+        await reencrypt(message);
+      });
+
+      const [status] = await reencryptionStatus(env, targets, store);
+      expect(status).toMatchObject({ remaining: 0, rowsUpdated: PAGE_SIZE + 5 });
+      expect(queue.send).toHaveBeenCalledTimes(2);
+    });
+
+    it('should resume from stored progress', async () => {
+      await startReencryption(env, targets, store);
+      await reencryptPage(vi.mocked(queue.send).mock.calls[0][0], env, targets, store);
+
+      // The chain stopped before the next page was delivered; starting again resumes it
+      const restart = createMockQueue<ReencryptionMessage>();
+      await startReencryption({ ...env, REENCRYPTION_QUEUE: restart as unknown as Queue }, targets, store);
+
+      expect(restart.send).toHaveBeenCalledWith(expect.objectContaining({ cursor: 'user-099' }));
+      expect((await reencryptionStatus(env, targets, store))[0].remaining).toBe(5);
+    });
+
+    it('should skip finished targets when started again', async () => {
+      await startReencryption(env, targets, store);
+      await drain();
+      await startReencryption(env, targets, store);
+
+      expect(queue.send).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not overwrite a row that changed meanwhile', async () => {
+      const value = store.get(target, 'user-000')!;
+      const fresh = await encryptSensitiveData('new-secret', env);
+
+      expect(await store.replace(target, 'user-000', 'stale', fresh)).toBe(false);
+      expect(store.get(target, 'user-000')).toBe(value);
+    });
+
+    it('should drop messages for a key that is no longer current', async () => {
+      await startReencryption(env, targets, store);
+      const rotatedAgain = { ...env, ENCRYPTION_KEY_V3: THIRD_KEY };
+
+      expect(await reencryptPage(vi.mocked(queue.send).mock.calls[0][0], rotatedAgain, targets, store)).toBeNull();
+    });
+
+    it('should ack processed messages and retry failed ones', async () => {
+      await startReencryption(env, targets, store);
+      const body = vi.mocked(queue.send).mock.calls[0][0];
+      const deliver = async () => {
+        const message = { body, ack: vi.fn(), retry: vi.fn() };
+        const batch = { messages: [message] } as unknown as MessageBatch<ReencryptionMessage>;
+
+        await handleReencryptionBatch(batch, env, targets, store);
+        return message;
+      };
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      vi.spyOn(store, 'page').mockRejectedValueOnce(new Error('D1_ERROR: database unavailable'));
+      expect((await deliver()).retry).toHaveBeenCalled();
+
+      expect((await deliver()).ack).toHaveBeenCalled();
+      expect((await reencryptionStatus(env, targets, store))[0].rowsUpdated).toBe(PAGE_SIZE);
+    });
+
+    it('should skip rows that fail to decrypt and report them', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      store.set(target, 'user-000', 'enc1.v1.A256GCM.AAAA.AAAA'); // fails to decrypt
+
+      await startReencryption(env, targets, store);
+      expect(await drain()).toBe(2);
+
+      const [status] = await reencryptionStatus(env, targets, store);
+      expect(status).toMatchObject({ done: true, remaining: 1, rowsUpdated: PAGE_SIZE + 4, rowsFailed: 1 });
+      expect(console.error).toHaveBeenCalledWith(
+        'Re-encryption skipped a row',
+        target.table,
+        target.column,
+        'user-000',
+        expect.any(Error)
+      );
+    });
+  });
+}
@@ -0,0 +1,146 @@
+/**
+ * Refresh Token Rotation Example
+ *
+ * Demonstrates one-time-use refresh tokens with reuse detection:
+ * - Every login starts a token *family* stored in KV
+ * - Each refresh consumes the current token and issues the next one
+ * - Presenting an already-used token revokes the whole family
+ *
+ * A reused token means it was copied (stolen) at some point, so neither the
+ * attacker nor the legitimate client may keep refreshing; the user has to
+ * log in again.
+ *
+ * Note: KV is eventually consistent and has no compare-and-swap, so two
+ * refreshes racing across locations can both succeed. Use a Durable Object
+ * or D1 if you need a strict guarantee.
+ */
+
+export interface Env {
+  REFRESH_TOKENS: KVNamespace;
+}
+
+interface RefreshTokenFamily {
+  userId: string;
+  currentJti: string;
+  revoked: boolean;
+}
+
+export type RotationResult =
+  | { status: 'rotated'; userId: string; jti: string }
+  | { status: 'reused'; userId: string }
+  | { status: 'invalid' };
+
+/**
+ * Refresh Token Family Store (KV)
+ */
+export class RefreshTokenFamilies {
+  static readonly TTL_SECONDS = 7 * 24 * 60 * 60; // Default refresh token expiry
+
+  // Pass the configured refresh token lifetime so families live exactly as long
+  constructor(private kv: KVNamespace, private ttlSeconds = RefreshTokenFamilies.TTL_SECONDS) {}
+
+  /**
+   * Start a new family at login, returning its ID and first token ID
+   */
+  async start(userId: string): Promise<{ familyId: string; jti: string }> {
+    const familyId = crypto.randomUUID();
+    const jti = crypto.randomUUID();
+
+    await this.save(familyId, { userId, currentJti: jti, revoked: false });
+
+    return { familyId, jti };
+  }
+
+  /**
+   * Consume the presented token and move the family to a new token ID
+   */
+  async rotate(familyId: string, presentedJti: string): Promise<RotationResult> {
+    const family = await this.load(familyId);
+
+    if (!family || family.revoked) {
+      return { status: 'invalid' };
+    }
+
+    if (family.currentJti !== presentedJti) {
+      // Keep the revoked marker until the family would have expired anyway
+      await this.save(familyId, { ...family, revoked: true });
+      console.warn('Refresh token reuse detected; family revoked', { familyId, userId: family.userId });
+
+      return { status: 'reused', userId: family.userId };
+    }
+
+    const jti = crypto.randomUUID();
+    await this.save(familyId, { ...family, currentJti: jti });
+
+    return { status: 'rotated', userId: family.userId, jti };
+  }
+
+  /**
+   * Revoke a family (e.g. on logout)
+   */
+  async revoke(familyId: string): Promise<void> {
+    const family = await this.load(familyId);
+
+    if (family) {
+      await this.save(familyId, { ...family, revoked: true });
+    }
+  }
+
+  private async load(familyId: string): Promise<RefreshTokenFamily | null> {
+    const data = await this.kv.get(`refresh-family:${familyId}`);
+
+    if (!data) {
+      return null;
+    }
+
+    return JSON.parse(data);
+  }
+
+  private async save(familyId: string, family: RefreshTokenFamily): Promise<void> {
+    await this.kv.put(`refresh-family:${familyId}`, JSON.stringify(family), {
+      expirationTtl: this.ttlSeconds,
+    });
+  }
+}
+
+/**
+ * Testing
+ */
+if (import.meta.vitest) {
+  const { describe, it, expect, beforeEach } = import.meta.vitest;
+  const { createMockKV } = await import('../../testing/backend/mocks/cloudflare-bindings');
+
+  describe('RefreshTokenFamilies', () => {
+    let families: RefreshTokenFamilies;
+
+    beforeEach(() => {
+      families = new RefreshTokenFamilies(createMockKV() as unknown as KVNamespace);
+    });
+
+    it('should rotate the current token', async () => {
+      const { familyId, jti } = await families.start('123');
+
+      const result = await families.rotate(familyId, jti);
+      expect(result).toMatchObject({ status: 'rotated', userId: '123' });
+    });
+
+    it('should revoke the family when an old token is reused', async () => {
+      const { familyId, jti } = await families.start('123');
+      const next = await families.rotate(familyId, jti);
+
+      expect(await families.rotate(familyId, jti)).toEqual({ status: 'reused', userId: '123' });
+
+      // The newest token is dead too
+      const latestJti = next.status === 'rotated' ? next.jti : '';
+      expect(await families.rotate(familyId, latestJti)).toEqual({ status: 'invalid' });
+    });
+
+    it('should reject unknown and revoked families', async () => {
+      expect(await families.rotate('missing', 'jti')).toEqual({ status: 'invalid' });
+
+      const { familyId, jti } = await families.start('123');
+      await families.revoke(familyId);
+      expect(await families.rotate(familyId, jti)).toEqual({ status: 'invalid' });
+    });
+  });
+}
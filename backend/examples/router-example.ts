@@ -0,0 +1,257 @@
+/**
+ * Declarative Router Example
+ *
+ * Demonstrates a route table where every route declares its auth policy:
+ * - `PUBLIC` — no authentication
+ * - `AUTHENTICATED` — any valid user
+ * - `roles('admin', ...)` — authenticated and one of the listed roles
+ * - `withMfa(roles('admin'))` — as above, and signed in with a second factor
+ *
+ * Anything not registered is denied (404) before any handler runs, so a
+ * forgotten `if` can no longer expose a route. `listRoutes` prints the table
+ * so reviewers can see every route and its policy in one place.
+ */
+
+export type RoutePolicy =
+  | { type: 'public' }
+  | { type: 'authenticated' }
+  | { type: 'roles'; roles: string[]; mfa?: boolean };
+
+export const PUBLIC = { type: 'public' } as const;
+export const AUTHENTICATED = { type: 'authenticated' } as const;
+
+export function roles<R extends string>(...allowed: R[]): { type: 'roles'; roles: R[] } {
+  return { type: 'roles', roles: allowed };
+}
+
+export function withMfa<P extends { type: 'roles' }>(policy: P): P & { mfa: true } {
+  return { ...policy, mfa: true };
+}
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | '*';
+
+export interface RouteContext<E> {
+  env: E;
+  params: Record<string, string>;
+}
+
+export type PublicHandler<E> = (request: Request, ctx: RouteContext<E>) => Promise<Response>;
+export type ProtectedHandler<E, U> = (request: Request, ctx: RouteContext<E> & { user: U }) => Promise<Response>;
+
+export interface RouterOptions<E, U> {
+  /** Resolve the caller, or return the 401 response */
+  authenticate: (request: Request, env: E) => Promise<{ user: U } | Response>;
+  /** Return a 403 response if the user lacks all of the roles (or MFA, when required), else null */
+  authorize: (user: U, roles: string[], options: { mfa: boolean }) => Response | null;
+}
+
+interface Route<E, U> {
+  method: HttpMethod;
+  path: string;
+  pattern: RegExp;
+  policy: RoutePolicy;
+  handler: PublicHandler<E> | ProtectedHandler<E, U>;
+}
+
+/**
+ * Router with per-route auth policy
+ */
+export class Router<E, U> {
+  private routes: Route<E, U>[] = [];
+
+  constructor(private options: RouterOptions<E, U>) {}
+
+  /**
+   * Register a route. Paths support `:param` segments and a trailing `/*`.
+   */
+  add(method: HttpMethod, path: string, policy: typeof PUBLIC, handler: PublicHandler<E>): this;
+  add(method: HttpMethod, path: string, policy: Exclude<RoutePolicy, typeof PUBLIC>, handler: ProtectedHandler<E, U>): this;
+  add(
+    method: HttpMethod,
+    path: string,
+    policy: RoutePolicy,
+    handler: PublicHandler<E> | ProtectedHandler<E, U>
+  ): this {
+    this.routes.push({ method, path, pattern: compilePath(path), policy, handler });
+    return this;
+  }
+
+  /**
+   * Dispatch a request: match, authenticate, authorize, then run the handler
+   */
+  async handle(request: Request, env: E): Promise<Response> {
+    const { pathname } = new URL(request.url);
+
+    const candidates = this.routes
+      .map((route) => ({ route, match: route.pattern.exec(pathname) }))
+      .filter((candidate) => candidate.match);
+
+    if (candidates.length === 0) {
+      return jsonError('Not found', 404);
+    }
+
+    const matched = candidates.find(({ route }) => route.method === '*' || route.method === request.method);
+
+    if (!matched) {
+      return jsonError('Method not allowed', 405);
+    }
+
+    const { route, match } = matched;
+    const params = match!.groups ?? {};
+
+    if (route.policy.type === 'public') {
+      return (route.handler as PublicHandler<E>)(request, { env, params });
+    }
+
+    const authResult = await this.options.authenticate(request, env);
+
+    if (authResult instanceof Response) {
+      return authResult;
+    }
+
+    if (route.policy.type === 'roles') {
+      const authzError = this.options.authorize(authResult.user, route.policy.roles, {
+        mfa: !!route.policy.mfa,
+      });
+      if (authzError) {
+        return authzError;
+      }
+    }
+
+    return (route.handler as ProtectedHandler<E, U>)(request, { env, params, user: authResult.user });
+  }
+
+  /**
+   * Every registered route with its policy, in registration order
+   */
+  describeRoutes(): Array<{ method: HttpMethod; path: string; policy: string }> {
+    return this.routes.map(({ method, path, policy }) => ({
+      method,
+      path,
+      policy: policy.type === 'roles' ? describeRoles(policy) : policy.type,
+    }));
+  }
+}
+
+/**
+ * Test helper: the route table as aligned lines, for review in assertions
+ *
+ * ```
+ * POST  /auth/login  public
+ * *     /admin/*     roles(admin)
+ * ```
+ */
+export function listRoutes<E, U>(router: Router<E, U>): string[] {
+  const rows = router.describeRoutes();
+  const methodWidth = Math.max(...rows.map((row) => row.method.length));
+  const pathWidth = Math.max(...rows.map((row) => row.path.length));
+
+  return rows.map((row) => `${row.method.padEnd(methodWidth)}  ${row.path.padEnd(pathWidth)}  ${row.policy}`);
+}
+
+function describeRoles(policy: { roles: string[]; mfa?: boolean }): string {
+  return `roles(${policy.roles.join(', ')})${policy.mfa ? ' +mfa' : ''}`;
+}
+
+function compilePath(path: string): RegExp {
+  const source = path
+    .split('/')
+    .map((segment) => {
+      if (segment === '*') {
+        return '.*';
+      }
+
+      if (segment.startsWith(':')) {
+        return `(?<${segment.slice(1)}>[^/]+)`;
+      }
+
+      return segment.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('/');
+
+  // `/admin/*` also matches `/admin` itself
+  return new RegExp(`^${source.replace(/\/\.\*$/, '(?:/.*)?')}$`);
+}
+
+function jsonError(error: string, status: number): Response {
+  return new Response(JSON.stringify({ error }), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * Testing
+ */
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+
+  describe('Router', () => {
+    interface TestUser {
+      role: string;
+      mfa: boolean;
+    }
+
+    const ok = async () => new Response('ok');
+
+    const router = new Router<{}, TestUser>({
+      authenticate: async (request) => {
+        const role = request.headers.get('X-Test-Role');
+        const mfa = request.headers.get('X-Test-Mfa') === 'true';
+        return role ? { user: { role, mfa } } : jsonError('Missing authentication token', 401);
+      },
+      authorize: (user, allowed, { mfa }) =>
+        allowed.includes(user.role) && (!mfa || user.mfa) ? null : jsonError('Insufficient permissions', 403),
+    })
+      .add('POST', '/auth/login', PUBLIC, ok)
+      .add('GET', '/users/:id', AUTHENTICATED, async (request, { params }) => new Response(params.id))
+      .add('*', '/admin/*', roles('admin'), ok)
+      .add('*', '/billing/*', withMfa(roles('admin')), ok);
+
+    const call = (method: string, path: string, role?: string, mfa = false) =>
+      router.handle(
+        new Request(`https://example.com${path}`, {
+          method,
+          headers: role ? { 'X-Test-Role': role, 'X-Test-Mfa': String(mfa) } : {},
+        }),
+        {}
+      );
+
+    it('should run public routes without authentication', async () => {
+      expect((await call('POST', '/auth/login')).status).toBe(200);
+    });
+
+    it('should require authentication on protected routes', async () => {
+      expect((await call('GET', '/users/42')).status).toBe(401);
+      expect(await (await call('GET', '/users/42', 'user')).text()).toBe('42');
+    });
+
+    it('should enforce role lists', async () => {
+      expect((await call('GET', '/admin', 'user')).status).toBe(403);
+      expect((await call('DELETE', '/admin/users/42', 'admin')).status).toBe(200);
+    });
+
+    it('should pass the MFA requirement to authorize', async () => {
+      expect((await call('GET', '/billing', 'admin')).status).toBe(403);
+      expect((await call('GET', '/billing', 'admin', true)).status).toBe(200);
+    });
+
+    it('should deny unregistered routes by default', async () => {
+      expect((await call('GET', '/internal/debug', 'admin')).status).toBe(404);
+      expect((await call('GET', '/administrator', 'admin')).status).toBe(404);
+    });
+
+    it('should return 405 for a registered path with the wrong method', async () => {
+      expect((await call('GET', '/auth/login')).status).toBe(405);
+    });
+
+    it('should list every route with its policy', () => {
+      expect(listRoutes(router)).toEqual([
+        'POST  /auth/login  public',
+        'GET   /users/:id   authenticated',
+        '*     /admin/*     roles(admin)',
+        '*     /billing/*   roles(admin) +mfa',
+      ]);
+    });
+  });
+}
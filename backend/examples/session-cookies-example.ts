@@ -0,0 +1,747 @@
+/**
+ * Session Cookie Example
+ *
+ * Demonstrates KV-backed sessions (`SessionManager`) and their cookie
+ * transport, for Next.js frontends that can't (and shouldn't) keep bearer
+ * tokens in JS:
+ * - `HttpOnly; Secure; SameSite=Lax` session cookie
+ * - Sliding expiration (cookie and KV entry renewed while the user is active)
+ * - Signed double-submit CSRF token on state-changing methods
+ *
+ * The CSRF token is an HMAC of the session ID, sent in a JS-readable cookie.
+ * The frontend echoes it in an `X-CSRF-Token` header; a cross-site form
+ * can't read the cookie, so it can't forge the header. The HMAC key is
+ * derived (HKDF, its own purpose) from the current data encryption key, so
+ * it doesn't depend on the JWT secrets, which go away with asymmetric signing.
+ */
+
+import type { Role } from './permissions-example';
+import { deriveDataKey, SecretManager, type EncryptionKeys } from './secrets-example';
+import { AUTHENTICATED, Router } from './router-example';
+import { AuthenticationError, authErrorResponse, AuthorizationError } from './auth-errors-example';
+
+/**
+ * Session Management (alternative to JWT)
+ * 
+ * Use KV to store sessions instead of stateless JWT.
+ * Pros: Can revoke sessions, track active sessions
+ * Cons: Requires KV lookup on every request (10-50ms latency)
+ */
+export type Env_WithKV = EncryptionKeys & {
+  SESSIONS: KVNamespace;
+};
+
+/**
+ * Who a session belongs to: the identity claims of an access token
+ * (`JWTPayload` in auth-middleware-example.ts), without its lifetime
+ */
+export interface SessionUser {
+  userId: string;
+  email: string;
+  role: Role;
+}
+
+/**
+ * Device details captured when a session starts
+ */
+export interface SessionMetadata {
+  ip?: string;
+  userAgent?: string;
+}
+
+/**
+ * Public view of a session, safe to return to its owner.
+ *
+ * `id` is a separate random handle; the session ID itself is a bearer
+ * credential and never leaves the cookie.
+ */
+export interface SessionInfo {
+  id: string;
+  device: 'mobile' | 'desktop' | 'unknown';
+  ip: string | null;
+  userAgent: string | null;
+  createdAt: number;
+  lastSeenAt: number;
+}
+
+interface StoredSession {
+  user: SessionUser;
+  refreshedAt: number;
+  info: SessionInfo;
+}
+
+export class SessionManager {
+  static readonly TTL_SECONDS = 86400; // 24 hours
+  private static readonly LAST_SEEN_RESOLUTION_MS = 5 * 60 * 1000;
+
+  constructor(private env: Env_WithKV) {}
+
+  /**
+   * Create a new session
+   */
+  async createSession(user: SessionUser, metadata: SessionMetadata = {}): Promise<string> {
+    const sessionId = crypto.randomUUID();
+    const now = Date.now();
+
+    const info: SessionInfo = {
+      id: crypto.randomUUID(),
+      device: detectDevice(metadata.userAgent),
+      ip: metadata.ip ?? null,
+      userAgent: metadata.userAgent ?? null,
+      createdAt: now,
+      lastSeenAt: now,
+    };
+
+    // Store session in KV
+    await this.saveSession(sessionId, { user, refreshedAt: now, info });
+
+    return sessionId;
+  }
+
+  /**
+   * Get session data
+   */
+  async getSession(sessionId: string): Promise<SessionUser | null> {
+    const session = await this.loadSession(sessionId);
+
+    return session ? session.user : null;
+  }
+
+  /**
+   * Get the public view of a session
+   */
+  async getSessionInfo(sessionId: string): Promise<SessionInfo | null> {
+    const session = await this.loadSession(sessionId);
+
+    return session ? session.info : null;
+  }
+
+  /**
+   * Extend session expiry (sliding expiration) and update last-seen time.
+   *
+   * Only rewrites KV once the session is past half its lifetime (or last-seen
+   * is more than 5 minutes old), so active users don't cost a KV write on
+   * every request. Returns true if the expiry was extended.
+   */
+  async touchSession(sessionId: string): Promise<boolean> {
+    const data = await this.env.SESSIONS.get(`session:${sessionId}`);
+
+    if (!data) {
+      return false;
+    }
+
+    const session: StoredSession = JSON.parse(data);
+    const now = Date.now();
+    const extend = now - session.refreshedAt >= (SessionManager.TTL_SECONDS * 1000) / 2;
+    const seen = now - session.info.lastSeenAt >= SessionManager.LAST_SEEN_RESOLUTION_MS;
+
+    if (!extend && !seen) {
+      return false;
+    }
+
+    // KV has no compare-and-set: re-read right before writing, so a session
+    // revoked (or changed) since the first read isn't written back
+    if ((await this.env.SESSIONS.get(`session:${sessionId}`)) !== data) {
+      return false;
+    }
+
+    await this.saveSession(sessionId, {
+      ...session,
+      refreshedAt: extend ? now : session.refreshedAt,
+      info: { ...session.info, lastSeenAt: now },
+    });
+
+    return extend;
+  }
+
+  /**
+   * List a user's active sessions, most recently seen first
+   */
+  async listSessions(userId: string): Promise<SessionInfo[]> {
+    const entries = await this.listIndex(userId);
+
+    return entries
+      .map((entry) => entry.info)
+      .sort((a, b) => b.lastSeenAt - a.lastSeenAt);
+  }
+
+  /**
+   * Revoke session
+   */
+  async revokeSession(sessionId: string): Promise<void> {
+    const session = await this.loadSession(sessionId);
+
+    await this.env.SESSIONS.delete(`session:${sessionId}`);
+
+    if (session) {
+      await this.env.SESSIONS.delete(indexKey(session.user.userId, session.info.id));
+    }
+  }
+
+  /**
+   * Revoke one of a user's sessions by its public ID. Returns false if the
+   * session doesn't exist or belongs to someone else.
+   */
+  async revokeSessionById(userId: string, id: string): Promise<boolean> {
+    const data = await this.env.SESSIONS.get(indexKey(userId, id));
+
+    if (!data) {
+      return false;
+    }
+
+    const { sessionId } = JSON.parse(data) as { sessionId: string };
+    await this.revokeSession(sessionId);
+
+    return true;
+  }
+
+  /**
+   * Revoke all of a user's sessions ("log out everywhere"), optionally
+   * keeping the current one. Returns the number revoked.
+   */
+  async revokeAllSessions(userId: string, exceptCurrent?: string): Promise<number> {
+    const entries = await this.listIndex(userId);
+    const revoked = entries.filter((entry) => entry.sessionId !== exceptCurrent);
+
+    await Promise.all(revoked.map((entry) => this.revokeSession(entry.sessionId)));
+
+    return revoked.length;
+  }
+
+  private async loadSession(sessionId: string): Promise<StoredSession | null> {
+    const data = await this.env.SESSIONS.get(`session:${sessionId}`);
+
+    if (!data) {
+      return null;
+    }
+
+    return JSON.parse(data);
+  }
+
+  /**
+   * Writes expire at `refreshedAt` + TTL, the cookie's `Max-Age`: a write that
+   * doesn't extend the session (last-seen only) keeps its expiry
+   */
+  private async saveSession(sessionId: string, session: StoredSession): Promise<void> {
+    const expirationTtl = SessionManager.TTL_SECONDS - Math.floor((Date.now() - session.refreshedAt) / 1000);
+
+    await this.env.SESSIONS.put(`session:${sessionId}`, JSON.stringify(session), { expirationTtl });
+
+    // Per-user index entry, expiring with the session
+    await this.env.SESSIONS.put(
+      indexKey(session.user.userId, session.info.id),
+      JSON.stringify({ sessionId, info: session.info }),
+      { expirationTtl }
+    );
+  }
+
+  private async listIndex(userId: string): Promise<Array<{ sessionId: string; info: SessionInfo }>> {
+    // A user has a handful of sessions; one page of keys is enough
+    const { keys } = await this.env.SESSIONS.list({ prefix: `user-sessions:${userId}:` });
+
+    const entries = await Promise.all(keys.map((key) => this.env.SESSIONS.get(key.name)));
+
+    return entries
+      .filter((data): data is string => !!data)
+      .map((data) => JSON.parse(data));
+  }
+}
+
+function indexKey(userId: string, id: string): string {
+  return `user-sessions:${userId}:${id}`;
+}
+
+function detectDevice(userAgent?: string): SessionInfo['device'] {
+  if (!userAgent) {
+    return 'unknown';
+  }
+
+  return /Mobile|Android|iPhone|iPad/i.test(userAgent) ? 'mobile' : 'desktop';
+}
+
+export const SESSION_COOKIE = '__Host-session';
+export const CSRF_COOKIE = '__Host-csrf';
+export const CSRF_HEADER = 'X-CSRF-Token';
+
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * Parse a Cookie header into a name → value map
+ */
+export function parseCookies(header: string | null): Map<string, string> {
+  const cookies = new Map<string, string>();
+
+  for (const part of (header ?? '').split(';')) {
+    const index = part.indexOf('=');
+
+    if (index > 0) {
+      cookies.set(part.slice(0, index).trim(), decodeURIComponent(part.slice(index + 1).trim()));
+    }
+  }
+
+  return cookies;
+}
+
+/**
+ * Build Set-Cookie values for a session and its CSRF token
+ */
+export async function createSessionCookies(sessionId: string, env: Env_WithKV): Promise<string[]> {
+  const maxAge = SessionManager.TTL_SECONDS;
+  const [csrfToken] = await createCsrfTokens(sessionId, env);
+
+  return [
+    `${SESSION_COOKIE}=${sessionId}; Path=/; Max-Age=${maxAge}; Secure; HttpOnly; SameSite=Lax`,
+    // Readable by JS so the frontend can echo it in the X-CSRF-Token header
+    `${CSRF_COOKIE}=${csrfToken}; Path=/; Max-Age=${maxAge}; Secure; SameSite=Lax`,
+  ];
+}
+
+/**
+ * Build Set-Cookie values that clear the session (logout)
+ */
+export function clearSessionCookies(): string[] {
+  return [
+    `${SESSION_COOKIE}=; Path=/; Max-Age=0; Secure; HttpOnly; SameSite=Lax`,
+    `${CSRF_COOKIE}=; Path=/; Max-Age=0; Secure; SameSite=Lax`,
+  ];
+}
+
+/**
+ * Append Set-Cookie headers to a response
+ */
+export function withCookies(response: Response, cookies: string[]): Response {
+  const result = new Response(response.body, response);
+
+  for (const cookie of cookies) {
+    result.headers.append('Set-Cookie', cookie);
+  }
+
+  return result;
+}
+
+/**
+ * Session Middleware
+ *
+ * Resolves the session cookie through `SessionManager.getSession`, enforces
+ * CSRF on state-changing methods, and slides the expiry. Handlers must pass
+ * `setCookies` to `withCookies` on their response.
+ */
+export async function sessionMiddleware(
+  request: Request,
+  env: Env_WithKV
+): Promise<{ user: SessionUser; sessionId: string; setCookies: string[] } | Response> {
+  const cookies = parseCookies(request.headers.get('Cookie'));
+  const sessionId = cookies.get(SESSION_COOKIE);
+
+  if (!sessionId) {
+    return authErrorResponse(new AuthenticationError('Missing session', 'session_missing'));
+  }
+
+  const sessions = new SessionManager(env);
+  const user = await sessions.getSession(sessionId);
+
+  if (!user) {
+    const expired = authErrorResponse(new AuthenticationError('Invalid or expired session', 'session_expired'));
+    return withCookies(expired, clearSessionCookies());
+  }
+
+  // Current key first; older ones still verify, so a key rotation doesn't fail the next POST
+  const csrfTokens = await createCsrfTokens(sessionId, env);
+
+  if (!SAFE_METHODS.includes(request.method)) {
+    const headerToken = request.headers.get(CSRF_HEADER) ?? '';
+    const cookieToken = cookies.get(CSRF_COOKIE) ?? '';
+
+    if (
+      !constantTimeEquals(headerToken, cookieToken) ||
+      !csrfTokens.some((token) => constantTimeEquals(headerToken, token))
+    ) {
+      return authErrorResponse(new AuthorizationError('Invalid CSRF token', 'invalid_csrf_token'));
+    }
+  }
+
+  // Re-issue cookies when the session was extended, or when the CSRF cookie
+  // is stale (e.g. after an encryption key rotation changed the HMAC key)
+  const extended = await sessions.touchSession(sessionId);
+  const csrfStale = cookies.get(CSRF_COOKIE) !== csrfTokens[0];
+  const setCookies = extended || csrfStale ? await createSessionCookies(sessionId, env) : [];
+
+  return { user, sessionId, setCookies };
+}
+
+/**
+ * Device metadata for `SessionManager.createSession`
+ */
+export function sessionMetadata(request: Request): SessionMetadata {
+  return {
+    ip: request.headers.get('CF-Connecting-IP') ?? undefined,
+    userAgent: request.headers.get('User-Agent') ?? undefined,
+  };
+}
+
+/**
+ * Session Routes
+ *
+ * Let the logged-in user see where they're signed in and sign out elsewhere:
+ * - `GET    /api/sessions`     — list sessions (current one flagged)
+ * - `DELETE /api/sessions`     — log out everywhere except here
+ * - `DELETE /api/sessions/:id` — log out one session
+ */
+type SessionAuth = { user: SessionUser; sessionId: string; setCookies: string[] };
+
+export const sessionRoutes = new Router<Env_WithKV, SessionAuth>({
+  authenticate: async (request, env) => {
+    const result = await sessionMiddleware(request, env);
+    return result instanceof Response ? result : { user: result };
+  },
+  authorize: (auth, allowedRoles) =>
+    allowedRoles.includes(auth.user.role)
+      ? null
+      : authErrorResponse(new AuthorizationError('Insufficient permissions', 'insufficient_scope')),
+})
+  .add('GET', '/api/sessions', AUTHENTICATED, async (request, { env, user: auth }) => {
+    const sessions = new SessionManager(env);
+    const current = await sessions.getSessionInfo(auth.sessionId);
+    const list = await sessions.listSessions(auth.user.userId);
+
+    return withCookies(
+      jsonResponse({ sessions: list.map((info) => ({ ...info, current: info.id === current?.id })) }),
+      auth.setCookies
+    );
+  })
+  .add('DELETE', '/api/sessions', AUTHENTICATED, async (request, { env, user: auth }) => {
+    const revoked = await new SessionManager(env).revokeAllSessions(auth.user.userId, auth.sessionId);
+
+    return withCookies(jsonResponse({ revoked }), auth.setCookies);
+  })
+  .add('DELETE', '/api/sessions/:id', AUTHENTICATED, async (request, { env, params, user: auth }) => {
+    const sessions = new SessionManager(env);
+    const current = await sessions.getSessionInfo(auth.sessionId);
+
+    if (!(await sessions.revokeSessionById(auth.user.userId, params.id))) {
+      return jsonError('Session not found', 404);
+    }
+
+    // Revoking the current session is a logout
+    const cookies = params.id === current?.id ? clearSessionCookies() : auth.setCookies;
+    return withCookies(jsonResponse({ revoked: 1 }), cookies);
+  });
+
+/**
+ * Derive the CSRF tokens for a session, one per data encryption key (newest
+ * first): HMAC-SHA256 with a key derived from each
+ */
+async function createCsrfTokens(sessionId: string, env: Env_WithKV): Promise<string[]> {
+  const ring = new SecretManager(env).getEncryptionKeyRing();
+
+  return Promise.all(ring.map(({ secret }) => csrfToken(sessionId, secret)));
+}
+
+async function csrfToken(sessionId: string, secret: string): Promise<string> {
+  const key = await deriveDataKey(secret, 'csrf-token', ['sign']);
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`csrf:${sessionId}`));
+
+  return btoa(String.fromCharCode(...new Uint8Array(signature)))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+function constantTimeEquals(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+
+  return diff === 0;
+}
+
+function jsonResponse(body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status: 200,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function jsonError(error: string, status: number): Response {
+  return new Response(JSON.stringify({ error }), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * Usage Example: Login and a protected route
+ *
+ * ```typescript
+ * // POST /session/login (after verifying credentials)
+ * const sessionId = await new SessionManager(env).createSession(user, sessionMetadata(request));
+ * return withCookies(Response.json({ user }), await createSessionCookies(sessionId, env));
+ *
+ * // Any protected route
+ * const auth = await sessionMiddleware(request, env);
+ * if (auth instanceof Response) return auth;
+ * return withCookies(Response.json({ user: auth.user }), auth.setCookies);
+ * ```
+ *
+ * Frontend (Next.js) — send the CSRF cookie back as a header:
+ *
+ * ```typescript
+ * const csrf = document.cookie.match(/__Host-csrf=([^;]+)/)?.[1] ?? '';
+ * await fetch('/api/profile', {
+ *   method: 'POST',
+ *   credentials: 'include',
+ *   headers: { 'X-CSRF-Token': csrf },
+ * });
+ * ```
+ */
+
+/**
+ * Testing
+ */
+if (import.meta.vitest) {
+  const { describe, it, expect, beforeEach, afterEach, vi } = import.meta.vitest;
+  const { createMockKV } = await import('../../testing/backend/mocks/cloudflare-bindings');
+
+  // openssl rand -base64 32
+  const TEST_ENCRYPTION_KEY = 'WogFF/kyhKg4pu3WS5R9tPC+mfuaumGy3gteyG21gNQ=';
+
+  describe('sessionMiddleware', () => {
+    let env: Env_WithKV;
+    let sessionId: string;
+    let cookieHeader: string;
+    let csrfToken: string;
+
+    beforeEach(async () => {
+      env = {
+        ENCRYPTION_KEY_V1: TEST_ENCRYPTION_KEY,
+        SESSIONS: createMockKV() as unknown as KVNamespace,
+      };
+
+      sessionId = await new SessionManager(env).createSession({
+        userId: '123',
+        email: 'test@example.com',
+        role: 'user',
+      });
+
+      const cookies = await createSessionCookies(sessionId, env);
+      cookieHeader = cookies.map((cookie) => cookie.split(';')[0]).join('; ');
+      csrfToken = parseCookies(cookieHeader).get(CSRF_COOKIE)!;
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should set HttpOnly on the session cookie only', async () => {
+      const [session, csrf] = await createSessionCookies(sessionId, env);
+
+      expect(session).toContain('HttpOnly');
+      expect(session).toContain('SameSite=Lax');
+      expect(csrf).not.toContain('HttpOnly');
+    });
+
+    it('should resolve the user from the session cookie', async () => {
+      const request = new Request('https://example.com/profile', { headers: { Cookie: cookieHeader } });
+
+      const result = await sessionMiddleware(request, env);
+      expect(result).not.toBeInstanceOf(Response);
+      expect((result as { user: SessionUser }).user.userId).toBe('123');
+    });
+
+    it('should return 401 without a session cookie', async () => {
+      const result = await sessionMiddleware(new Request('https://example.com/profile'), env);
+
+      expect((result as Response).status).toBe(401);
+    });
+
+    it('should reject a POST without the CSRF header', async () => {
+      const request = new Request('https://example.com/profile', {
+        method: 'POST',
+        headers: { Cookie: cookieHeader },
+      });
+
+      const result = await sessionMiddleware(request, env);
+      expect((result as Response).status).toBe(403);
+    });
+
+    it('should accept a POST with a matching CSRF header', async () => {
+      const request = new Request('https://example.com/profile', {
+        method: 'POST',
+        headers: { Cookie: cookieHeader, [CSRF_HEADER]: csrfToken },
+      });
+
+      const result = await sessionMiddleware(request, env);
+      expect(result).not.toBeInstanceOf(Response);
+    });
+
+    it('should accept the previous CSRF token after a key rotation and reissue it', async () => {
+      const request = new Request('https://example.com/profile', {
+        method: 'POST',
+        headers: { Cookie: cookieHeader, [CSRF_HEADER]: csrfToken },
+      });
+      const rotated = { ...env, ENCRYPTION_KEY_V2: 'h4iHy+QafA43hWky8CTtOhbqFiD+cxtAw0x1v+ej42I=' };
+
+      const result = await sessionMiddleware(request, rotated);
+      expect(result).not.toBeInstanceOf(Response);
+
+      const [, csrf] = (result as { setCookies: string[] }).setCookies;
+      expect(csrf).toContain(`${CSRF_COOKIE}=`);
+      expect(csrf).not.toContain(csrfToken);
+    });
+
+    it('should slide the expiry once past half the session lifetime', async () => {
+      const request = () => new Request('https://example.com/profile', { headers: { Cookie: cookieHeader } });
+
+      const early = await sessionMiddleware(request(), env);
+      expect((early as { setCookies: string[] }).setCookies).toHaveLength(0);
+
+      vi.useFakeTimers();
+      vi.setSystemTime(Date.now() + (SessionManager.TTL_SECONDS * 1000 * 3) / 4);
+
+      const late = await sessionMiddleware(request(), env);
+      expect((late as { setCookies: string[] }).setCookies).toHaveLength(2);
+    });
+  });
+
+  describe('sessionRoutes', () => {
+    let env: Env_WithKV;
+    const user = { userId: '123', email: 'test@example.com', role: 'user' as const };
+
+    const login = async () => {
+      const sessionId = await new SessionManager(env).createSession(user, { userAgent: 'Mozilla/5.0 (iPhone) Mobile' });
+      const cookies = await createSessionCookies(sessionId, env);
+      const cookie = cookies.map((value) => value.split(';')[0]).join('; ');
+
+      return { sessionId, cookie, csrf: parseCookies(cookie).get(CSRF_COOKIE)! };
+    };
+
+    beforeEach(() => {
+      env = {
+        ENCRYPTION_KEY_V1: TEST_ENCRYPTION_KEY,
+        SESSIONS: createMockKV() as unknown as KVNamespace,
+      };
+    });
+
+    it('should list sessions and flag the current one', async () => {
+      const current = await login();
+      await login();
+
+      const response = await sessionRoutes.handle(
+        new Request('https://example.com/api/sessions', { headers: { Cookie: current.cookie } }),
+        env
+      );
+      const { sessions } = await response.json<{ sessions: Array<{ current: boolean; device: string }> }>();
+
+      expect(sessions).toHaveLength(2);
+      expect(sessions.filter((session) => session.current)).toHaveLength(1);
+      expect(sessions[0].device).toBe('mobile');
+    });
+
+    it('should log out everywhere else', async () => {
+      const current = await login();
+      const other = await login();
+
+      const response = await sessionRoutes.handle(
+        new Request('https://example.com/api/sessions', {
+          method: 'DELETE',
+          headers: { Cookie: current.cookie, [CSRF_HEADER]: current.csrf },
+        }),
+        env
+      );
+
+      expect(await response.json()).toEqual({ revoked: 1 });
+      expect(await new SessionManager(env).getSession(other.sessionId)).toBeNull();
+      expect(await new SessionManager(env).getSession(current.sessionId)).not.toBeNull();
+    });
+
+    it('should require a session', async () => {
+      const response = await sessionRoutes.handle(new Request('https://example.com/api/sessions'), env);
+
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe('SessionManager', () => {
+    let env: Env_WithKV;
+    let sessions: SessionManager;
+    const user = { userId: '123', email: 'test@example.com', role: 'user' as const };
+
+    beforeEach(() => {
+      env = {
+        ENCRYPTION_KEY_V1: TEST_ENCRYPTION_KEY,
+        SESSIONS: createMockKV() as unknown as KVNamespace,
+      };
+      sessions = new SessionManager(env);
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should keep the expiry when only updating last-seen', async () => {
+      const sessionId = await sessions.createSession(user);
+
+      vi.useFakeTimers();
+      vi.setSystemTime(Date.now() + 60 * 60 * 1000);
+
+      expect(await sessions.touchSession(sessionId)).toBe(false);
+      expect(vi.mocked(env.SESSIONS.put)).toHaveBeenLastCalledWith(expect.any(String), expect.any(String), {
+        expirationTtl: SessionManager.TTL_SECONDS - 60 * 60,
+      });
+    });
+
+    it('should not write back a session revoked during a touch', async () => {
+      const sessionId = await sessions.createSession(user);
+      const read = vi.mocked(env.SESSIONS.get).getMockImplementation()!;
+
+      vi.useFakeTimers();
+      vi.setSystemTime(Date.now() + 60 * 60 * 1000);
+
+      // Logged out everywhere between the touch's read and its write
+      vi.mocked(env.SESSIONS.get).mockImplementationOnce(async (key, options) => {
+        const value = await read(key, options);
+        await sessions.revokeAllSessions('123');
+        return value;
+      });
+
+      await sessions.touchSession(sessionId);
+      expect(await sessions.getSession(sessionId)).toBeNull();
+      expect(await sessions.listSessions('123')).toHaveLength(0);
+    });
+
+    it('should list a user\'s sessions with device metadata', async () => {
+      await sessions.createSession(user, { ip: '1.2.3.4', userAgent: 'Mozilla/5.0 (iPhone) Mobile' });
+      await sessions.createSession(user, { ip: '5.6.7.8', userAgent: 'Mozilla/5.0 (X11; Linux x86_64)' });
+      await sessions.createSession({ ...user, userId: '456' });
+
+      const list = await sessions.listSessions('123');
+      expect(list).toHaveLength(2);
+      expect(list.map((info) => info.device).sort()).toEqual(['desktop', 'mobile']);
+      expect(JSON.stringify(list)).not.toContain('sessionId');
+    });
+
+    it('should revoke all sessions except the current one', async () => {
+      const current = await sessions.createSession(user);
+      const other = await sessions.createSession(user);
+
+      expect(await sessions.revokeAllSessions('123', current)).toBe(1);
+      expect(await sessions.getSession(current)).not.toBeNull();
+      expect(await sessions.getSession(other)).toBeNull();
+      expect(await sessions.listSessions('123')).toHaveLength(1);
+    });
+
+    it('should only revoke by public ID within the owner\'s index', async () => {
+      const sessionId = await sessions.createSession(user);
+      const info = await sessions.getSessionInfo(sessionId);
+
+      expect(await sessions.revokeSessionById('456', info!.id)).toBe(false);
+      expect(await sessions.revokeSessionById('123', info!.id)).toBe(true);
+      expect(await sessions.getSession(sessionId)).toBeNull();
+    });
+  });
+}
@@ -0,0 +1,227 @@
+/**
+ * Token Revocation Example
+ *
+ * Demonstrates revoking stateless JWTs before they expire:
+ * - Per-token denylist keyed by `jti`, kept in KV only for the token's remaining life
+ * - Per-user "not before" timestamp: every token issued at or before it is rejected
+ *   (log out everywhere, role changes, compromised accounts)
+ * - A small in-isolate cache so most requests don't read KV
+ *
+ * `authMiddleware` and the refresh route in `auth-middleware-example.ts`
+ * check both lists.
+ *
+ * Note: cached lookups mean a revocation can take up to `CACHE_TTL_MS` (plus
+ * KV propagation, up to ~60s) to reach other isolates. Revocations made in
+ * this isolate apply immediately.
+ */
+
+export interface Env {
+  REVOKED_TOKENS: KVNamespace;
+}
+
+export interface RevocableToken {
+  userId: string;
+  jti?: string;
+  iat?: number;
+  exp?: number;
+}
+
+interface CacheEntry {
+  value: string | null;
+  expiresAt: number; // epoch ms
+}
+
+// Shared by every request in this isolate, per namespace
+const caches = new WeakMap<KVNamespace, Map<string, CacheEntry>>();
+
+function cacheFor(kv: KVNamespace): Map<string, CacheEntry> {
+  let cache = caches.get(kv);
+
+  if (!cache) {
+    cache = new Map();
+    caches.set(kv, cache);
+  }
+
+  return cache;
+}
+
+/**
+ * Token Revocation List (KV)
+ */
+export class TokenRevocationList {
+  static readonly CACHE_TTL_MS = 30 * 1000;
+  static readonly CACHE_MAX_ENTRIES = 1000;
+
+  // Default longest-lived token (refresh, 7 days): a user's cutoff can be dropped after that
+  static readonly NOT_BEFORE_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+  private readonly cache: Map<string, CacheEntry>;
+
+  constructor(
+    private kv: KVNamespace,
+    private now: () => number = Date.now,
+    private notBeforeTtlSeconds = TokenRevocationList.NOT_BEFORE_TTL_SECONDS
+  ) {
+    this.cache = cacheFor(kv);
+  }
+
+  /**
+   * Revoke a single token until it would have expired anyway
+   */
+  async revokeToken(token: RevocableToken): Promise<void> {
+    if (!token.jti) {
+      throw new Error('Token has no jti and cannot be revoked individually');
+    }
+
+    const nowSeconds = Math.floor(this.now() / 1000);
+    const remaining = (token.exp ?? nowSeconds + this.notBeforeTtlSeconds) - nowSeconds;
+
+    if (remaining <= 0) {
+      return; // Already expired
+    }
+
+    // KV rejects TTLs under 60 seconds
+    await this.write(`revoked:${token.jti}`, '1', Math.max(60, remaining));
+  }
+
+  /**
+   * Revoke every token issued to a user before the current second
+   */
+  async revokeAllForUser(userId: string): Promise<void> {
+    const notBefore = String(Math.floor(this.now() / 1000));
+    await this.write(`not-before:${userId}`, notBefore, this.notBeforeTtlSeconds);
+  }
+
+  /**
+   * Whether a verified token has been revoked, individually or by user
+   */
+  async isRevoked(token: RevocableToken): Promise<boolean> {
+    const [denied, notBefore] = await Promise.all([
+      token.jti ? this.read(`revoked:${token.jti}`) : null,
+      this.read(`not-before:${token.userId}`),
+    ]);
+
+    if (denied) {
+      return true;
+    }
+
+    // `iat` has one-second resolution: tokens from the cutoff's own second stay
+    // valid, or the sign-in that follows a "log out everywhere" would be revoked too
+    return notBefore !== null && (token.iat ?? 0) < parseInt(notBefore, 10);
+  }
+
+  private async read(key: string): Promise<string | null> {
+    const cached = this.cache.get(key);
+
+    if (cached && cached.expiresAt > this.now()) {
+      return cached.value;
+    }
+
+    const value = await this.kv.get(key);
+    this.remember(key, value);
+
+    return value;
+  }
+
+  private async write(key: string, value: string, ttlSeconds: number): Promise<void> {
+    await this.kv.put(key, value, { expirationTtl: ttlSeconds });
+    this.remember(key, value);
+  }
+
+  private remember(key: string, value: string | null): void {
+    // Map iterates in insertion order, so the first key is the oldest
+    if (!this.cache.has(key) && this.cache.size >= TokenRevocationList.CACHE_MAX_ENTRIES) {
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+
+    this.cache.delete(key);
+    this.cache.set(key, { value, expiresAt: this.now() + TokenRevocationList.CACHE_TTL_MS });
+  }
+}
+
+/**
+ * Testing
+ */
+if (import.meta.vitest) {
+  const { describe, it, expect, beforeEach } = import.meta.vitest;
+  const { createMockKV } = await import('../../testing/backend/mocks/cloudflare-bindings');
+
+  describe('TokenRevocationList', () => {
+    let clock: number;
+    let kv: ReturnType<typeof createMockKV>;
+    let revocations: TokenRevocationList;
+
+    beforeEach(() => {
+      clock = Date.parse('2025-01-01T00:00:00Z');
+      kv = createMockKV();
+      revocations = new TokenRevocationList(kv as unknown as KVNamespace, () => clock);
+    });
+
+    const token = (overrides: Partial<RevocableToken> = {}): RevocableToken => ({
+      userId: crypto.randomUUID(),
+      jti: crypto.randomUUID(),
+      iat: clock / 1000 - 60,
+      exp: clock / 1000 + 3600,
+      ...overrides,
+    });
+
+    it('should revoke a single token for its remaining lifetime', async () => {
+      const revoked = token();
+      await revocations.revokeToken(revoked);
+
+      expect(await revocations.isRevoked(revoked)).toBe(true);
+      expect(await revocations.isRevoked(token({ userId: revoked.userId }))).toBe(false);
+      expect(kv.put).toHaveBeenCalledWith(`revoked:${revoked.jti}`, '1', { expirationTtl: 3600 });
+    });
+
+    it('should reject tokens issued before the user cutoff only', async () => {
+      const old = token();
+      await revocations.revokeAllForUser(old.userId);
+
+      clock += 1000;
+      const fresh = token({ userId: old.userId, iat: clock / 1000 });
+
+      expect(await revocations.isRevoked(old)).toBe(true);
+      expect(await revocations.isRevoked(fresh)).toBe(false);
+    });
+
+    it('should accept tokens issued in the same second as the cutoff', async () => {
+      const userId = crypto.randomUUID();
+      await revocations.revokeAllForUser(userId);
+
+      // e.g. signing in again right after logging out everywhere
+      expect(await revocations.isRevoked(token({ userId, iat: Math.floor(clock / 1000) }))).toBe(false);
+      expect(await revocations.isRevoked(token({ userId, iat: Math.floor(clock / 1000) - 1 }))).toBe(true);
+    });
+
+    it('should serve repeated checks from the isolate cache', async () => {
+      const checked = token();
+
+      await revocations.isRevoked(checked);
+      await revocations.isRevoked(checked);
+      expect(kv.get).toHaveBeenCalledTimes(2); // jti + not-before, once each
+
+      clock += TokenRevocationList.CACHE_TTL_MS + 1;
+      await revocations.isRevoked(checked);
+      expect(kv.get).toHaveBeenCalledTimes(4);
+    });
+
+    it('should not share cached entries between namespaces', async () => {
+      const revoked = token();
+      await revocations.revokeToken(revoked);
+
+      const other = new TokenRevocationList(createMockKV() as unknown as KVNamespace, () => clock);
+      expect(await other.isRevoked(revoked)).toBe(false);
+    });
+
+    it('should skip tokens that have already expired', async () => {
+      await revocations.revokeToken(token({ exp: clock / 1000 - 1 }));
+
+      expect(kv.put).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to revoke a token without a jti', async () => {
+      await expect(revocations.revokeToken(token({ jti: undefined }))).rejects.toThrow('no jti');
+    });
+  });
+}